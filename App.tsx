@@ -1,12 +1,44 @@
 
-import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
-import { ProgramFile, FileStatus } from './types';
-import { GoogleGenAI } from "@google/genai";
-import JSZip from 'jszip';
-import { toPng } from 'html-to-image';
+import React, { useState, useCallback, useRef, useMemo, useEffect, useSyncExternalStore } from 'react';
+import { ProgramFile, FileStatus, ExecutionMode, InputSet, GradingOptions, AiSettings, SaveResult, SessionSettings, ArchiveLayout, PackagingOptions, StudentInfo, CodeSnapshotOptions, CodeTheme, SnapshotStyle, TerminalPreset, ImageFormat, BatchSettings, PromptTemplate, PromptTemplates, Verification } from './types';
+import { toCanvas } from 'html-to-image';
+import { canRunLocally, formatRunOutput, formatRunTranscript, isLocalExecutionAvailable, runLocally } from './services/executionService';
+import { isVsCodeWebview, notifyHost, onHostMessage, requestHost } from './services/vscodeBridge';
+import { codeImageKey, getRunSlots, hasSnapshot, UploadedText } from './services/inputSets';
+import { createProgramFiles, readBrowserFiles, SkippedUpload } from './services/uploadService';
+import { createFileStore, RunPatch } from './services/fileStore';
+import InputSetsEditor from './components/InputSetsEditor';
+import { createRateLimiter, DEFAULT_AI_SETTINGS, DEFAULT_MODELS } from './services/aiProviders';
+import { createJobQueue, DEFAULT_BATCH_SETTINGS, formatEta, IDLE_PROGRESS, QueueProgress } from './services/jobQueue';
+import { generateOutput } from './services/aiService';
+import OutputDiff from './components/OutputDiff';
+import VerificationBadge from './components/VerificationBadge';
+import CodeEditor from './components/CodeEditor';
+import CodeSnapshot from './components/CodeSnapshot';
+import { paginateCode } from './services/highlight';
+import WindowControls from './components/WindowControls';
+import NotebookView from './components/NotebookView';
+import HtmlSandbox, { SandboxHandle } from './components/HtmlSandbox';
+import { formatConsole } from './services/htmlSandbox';
+import { formatChrome as formatTerminalChrome } from './services/terminalSnapshot';
+import { hasManualEdits } from './services/grading';
+import { fileVerification, unverifiedSnapshots, verifySimulation } from './services/verification';
+import FileTypeIcon from './components/FileTypeIcon';
+import { codeView, findLanguage, runCommandFor } from './services/languages';
+import { notebookOutput, parseNotebook } from './services/notebook';
+import { BROWSER_CHROME, CODE_THEMES, DEFAULT_CODE_SNAPSHOTS, DEFAULT_SNAPSHOT_STYLE, LANGUAGES, TERMINAL_PRESETS } from './constants';
+import { IMAGE_FORMATS } from './services/imageFormat';
+import { ARCHIVE_LAYOUT_LABELS, DEFAULT_PACKAGING_OPTIONS, programPaths, readSubmissionEntries, SubmissionLayoutError } from './services/zipService';
+import { EXPORT_FORMATS, ExportFormat, exportSubmission } from './services/exportService';
+import { DOCX_PLACEHOLDERS } from './services/docxService';
+import { checkNames, checkRootPattern, formatName as formatPattern, formatRootName, PLACEHOLDER_HELP } from './services/naming';
+import { loadPromptTemplates, loadSnapshotStyle, loadStudentInfo, savePromptTemplates, saveSnapshotStyle, saveStudentInfo } from './services/profileService';
+import { builtInTemplate, DEFAULT_TEMPLATE_KEY, PROMPT_VARIABLES, resolveTemplate } from './services/promptTemplates';
+import { clearStoredSession, createSessionId, getLocalSnapshot, loadStoredSession, persistSession, persistSessionImage, restoreFiles, StoredSession, toSnapshot } from './services/sessionService';
 import { 
   FolderIcon, 
   DocumentIcon, 
+  DocumentTextIcon, 
   PlayIcon, 
   ArrowDownTrayIcon, 
   TrashIcon, 
@@ -17,21 +49,121 @@ import {
   HashtagIcon, 
   GlobeAltIcon, 
   CommandLineIcon, 
-  XMarkIcon 
+  XMarkIcon,
+  ArrowPathIcon,
+  PauseIcon,
+  StopIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  PencilSquareIcon,
+  CameraIcon
 } from '@heroicons/react/24/outline';
 
 const App: React.FC = () => {
-  const [files, setFiles] = useState<ProgramFile[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const fileStore = useMemo(() => createFileStore(), []);
+  const files = useSyncExternalStore(fileStore.subscribe, fileStore.getState);
+  const dispatch = fileStore.dispatch;
   const [showSettings, setShowSettings] = useState(false);
+  // Real runs need the extension host; the Gemini simulator is the fallback everywhere else.
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>(isLocalExecutionAvailable() ? 'local' : 'ai');
+  // Check simulated outputs against real runs where the extension can run the program
+  const [verifySimulations, setVerifySimulations] = useState(false);
   
   // Naming configuration state
-  const [folderPattern, setFolderPattern] = useState('[index]_[name]');
-  const [screenshotPattern, setScreenshotPattern] = useState('[name]_output');
-  const [startIndex, setStartIndex] = useState(1);
-  const [isNumberingEnabled, setIsNumberingEnabled] = useState(true);
+  const [folderPattern, setFolderPattern] = useState(DEFAULT_PACKAGING_OPTIONS.folderPattern);
+  const [screenshotPattern, setScreenshotPattern] = useState(DEFAULT_PACKAGING_OPTIONS.screenshotPattern);
+  const [codePattern, setCodePattern] = useState(DEFAULT_PACKAGING_OPTIONS.codePattern);
+  const [startIndex, setStartIndex] = useState(DEFAULT_PACKAGING_OPTIONS.startIndex);
+  const [isNumberingEnabled, setIsNumberingEnabled] = useState(DEFAULT_PACKAGING_OPTIONS.isNumberingEnabled);
+
+  // Archive layout
+  const [layout, setLayout] = useState<ArchiveLayout>(DEFAULT_PACKAGING_OPTIONS.layout);
+  const [rootPattern, setRootPattern] = useState(DEFAULT_PACKAGING_OPTIONS.rootPattern);
+  const [student, setStudent] = useState<StudentInfo>(DEFAULT_PACKAGING_OPTIONS.student);
+  const isProfileLoaded = useRef(false);
+
+  // Highlighted source code images, captured next to the output screenshots
+  const [codeSnapshots, setCodeSnapshots] = useState<CodeSnapshotOptions>(DEFAULT_CODE_SNAPSHOTS);
+
+  // Batch processing: files run in parallel, AI requests are spread out to stay under the rate limit
+  const [batch, setBatch] = useState<BatchSettings>(DEFAULT_BATCH_SETTINGS);
+  const [queueProgress, setQueueProgress] = useState<QueueProgress>(IDLE_PROGRESS);
+  const isProcessing = queueProgress.state !== 'idle';
+  // Runs asked for from the VS Code Programs view; no ids means every program not done yet.
+  const [requestedRun, setRequestedRun] = useState<{ ids?: string[] } | null>(null);
+  // The queue outlives renders, so it always calls the latest processSingleFile through this ref.
+  const processRef = useRef<(fileId: string) => Promise<void>>(() => Promise.resolve());
+  const queue = useMemo(() => createJobQueue(fileId => processRef.current(fileId), setQueueProgress), []);
+  const rateLimiter = useMemo(() => createRateLimiter(DEFAULT_BATCH_SETTINGS.requestsPerMinute), []);
+
+  // Terminal/browser look and image encoding of the snapshots
+  const [snapshotStyle, setSnapshotStyle] = useState<SnapshotStyle>(DEFAULT_SNAPSHOT_STYLE);
+  const isSnapshotStyleLoaded = useRef(false);
+  const terminalPreset = TERMINAL_PRESETS[snapshotStyle.preset];
+  const browserChrome = BROWSER_CHROME[terminalPreset.dark ? 'dark' : 'light'];
+  const imageExtension = IMAGE_FORMATS[snapshotStyle.imageFormat].extension;
+
+  // Custom AI prompts; edited as a draft and only stored on Save
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplates>({});
+  const [promptKey, setPromptKey] = useState(DEFAULT_TEMPLATE_KEY);
+  const [promptDraft, setPromptDraft] = useState<PromptTemplate>(builtInTemplate(DEFAULT_TEMPLATE_KEY));
+
+  // Optional Word template for DOCX exports
+  const [docxTemplate, setDocxTemplate] = useState<{ name: string; data: Uint8Array } | null>(null);
+
+  // Expected-output comparison
+  const [gradingOptions, setGradingOptions] = useState<GradingOptions>(DEFAULT_PACKAGING_OPTIONS.gradingOptions);
+
+  const packagingOptions: PackagingOptions = {
+    folderPattern, screenshotPattern, codePattern, startIndex, isNumberingEnabled, layout, rootPattern, student, gradingOptions
+  };
+
+  // Live preview of the resulting paths; a sample program stands in until files are loaded.
+  const previewFiles: ProgramFile[] = files.length > 0
+    ? files
+    : [{ id: 'preview', name: 'program.py', content: '', language: 'py', status: FileStatus.PENDING }];
+  // Paths as the ZIP will have them, with code pages counted before they are captured.
+  const previewPaths = (file: ProgramFile, index: number) => {
+    const codeImageCount = codeSnapshots.enabled
+      ? file.codeImages?.length || paginateCode(codeView(file).code, codeView(file).language, codeSnapshots.linesPerImage).length
+      : 0;
+    return programPaths(file, index, packagingOptions, { codeImageCount, imageFormat: snapshotStyle.imageFormat });
+  };
+  // Screenshot and code page file names of a program, as its card lists them.
+  const assetNames = (file: ProgramFile, index: number) => {
+    const { screenshots, codeImages } = previewPaths(file, index);
+    return [...screenshots, ...codeImages].map(path => path.split('/').pop());
+  };
+  const nameChecks = checkNames(previewFiles, packagingOptions, layout, codeSnapshots.enabled);
+  const rootProblems = checkRootPattern(rootPattern, packagingOptions);
+  const namingProblemCount = rootProblems.length + nameChecks.reduce((sum, check) => sum + check.problems.length, 0);
+
+  // AI simulator configuration. Inside VS Code the key comes from SecretStorage (see effect below);
+  // the dev server may provide one from .env.local.
+  const [aiSettings, setAiSettings] = useState<AiSettings>({
+    ...DEFAULT_AI_SETTINGS,
+    apiKey: isVsCodeWebview() ? '' : process.env.API_KEY || ''
+  });
+  const isApiKeyMissing = aiSettings.provider === 'gemini' && !aiSettings.apiKey;
+
+  // Where the last submission went; the session is only cleared once the user confirms.
+  const [savedTo, setSavedTo] = useState<string | null>(null);
+  // Uploaded files that were neither programs nor inputs, from the last upload.
+  const [skippedUploads, setSkippedUploads] = useState<SkippedUpload[]>([]);
+
+  // Session persistence (VS Code only): the session survives panel closes and window reloads.
+  const sessionIdRef = useRef(createSessionId());
+  const [isRestoring, setIsRestoring] = useState(isVsCodeWebview());
+  const [resumable, setResumable] = useState<StoredSession | null>(null);
   
   const terminalRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
+  const codeRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
+  // Inline editor: one program at a time, with drafts of its source and of each run's output (by slot key)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sourceDraft, setSourceDraft] = useState('');
+  const [outputDrafts, setOutputDrafts] = useState<Record<string, string>>({});
+  // Live HTML pages, by run slot key
+  const sandboxRefs = useRef<{ [key: string]: SandboxHandle | null }>({});
   const settingsRef = useRef<HTMLDivElement>(null);
   const settingsButtonRef = useRef<HTMLButtonElement>(null);
 
@@ -53,225 +185,434 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showSettings]);
 
-  const formatName = (pattern: string, file: ProgramFile, index: number) => {
-    const nameWithoutExt = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
-    const ext = file.name.split('.').pop() || '';
-    
-    let formatted = pattern
-      .replace(/\[name\]/g, nameWithoutExt)
-      .replace(/\[ext\]/g, ext)
-      .replace(/\[full\]/g, file.name);
-
-    if (isNumberingEnabled) {
-      formatted = formatted.replace(/\[index\]/g, (startIndex + index).toString());
-    } else {
-      formatted = formatted.replace(/\[index\][_\-\s]?/g, '');
-    }
-    
-    return formatted;
+  // Fetch the provider's key from the extension host, and again whenever it changes there
+  useEffect(() => {
+    if (!isVsCodeWebview()) return;
+    const loadKey = () => {
+      requestHost<string | null>('getApiKey', { provider: aiSettings.provider })
+        .then(apiKey => setAiSettings(prev => ({ ...prev, apiKey: apiKey ?? '' })))
+        .catch(err => console.error('Could not load API key:', err));
+    };
+    loadKey();
+    return onHostMessage('apiKeysChanged', loadKey);
+  }, [aiSettings.provider]);
+
+  // Files sent from the VS Code explorer ("AutoLab: Process Folder" / "AutoLab: Add File").
+  // Only accepted once the previous session is back, so a restore can't overwrite them.
+  useEffect(() => {
+    if (!isVsCodeWebview() || isRestoring) return;
+    const unsubscribers = [
+      onHostMessage<{ files: UploadedText[] }>('addFiles', message => addUploadedFiles(message.files)),
+      onHostMessage<{ ids?: string[] }>('runPrograms', message => setRequestedRun({ ids: message.ids }))
+    ];
+    notifyHost('ready');
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [isRestoring]);
+
+  // Batch progress for the VS Code status bar
+  useEffect(() => {
+    if (!isVsCodeWebview()) return;
+    const { state, total, done, etaMs } = queueProgress;
+    notifyHost('batchProgress', { state, total, done, etaMs });
+  }, [queueProgress]);
+
+  // Restore the session: webview state survives hiding and reloads of this panel; the host copy
+  // (with screenshots) also survives closing it, and is offered as "Resume Last Session".
+  useEffect(() => {
+    if (!isVsCodeWebview()) return;
+    const local = getLocalSnapshot();
+    loadStoredSession().then(stored => {
+      if (local) {
+        const images = stored?.snapshot.sessionId === local.sessionId ? stored.images : {};
+        applySession({ snapshot: local, images });
+      } else if (stored && stored.snapshot.files.length > 0) {
+        setResumable(stored);
+      }
+      setIsRestoring(false);
+    });
+  }, []);
+
+  const buildSessionSettings = (): SessionSettings => {
+    const { apiKey: _apiKey, ...ai } = aiSettings;
+    return { ...packagingOptions, executionMode, aiSettings: ai, codeSnapshots, snapshotStyle, batch, verifySimulations };
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const uploadedFiles = event.target.files;
-    if (!uploadedFiles) return;
+  // Save the session shortly after every change (debounced so typing doesn't flood the host). An
+  // empty panel saves nothing, so opening one doesn't overwrite the session offered for resuming.
+  useEffect(() => {
+    if (!isVsCodeWebview() || isRestoring || files.length === 0) return;
+    const timer = setTimeout(() => persistSession(toSnapshot(sessionIdRef.current, files, buildSessionSettings())), 500);
+    return () => clearTimeout(timer);
+  }, [files, folderPattern, screenshotPattern, codePattern, startIndex, isNumberingEnabled, layout, rootPattern, student, executionMode, gradingOptions, aiSettings, codeSnapshots, snapshotStyle, batch, verifySimulations, isRestoring]);
 
-    const validFiles = Array.from(uploadedFiles).filter(f => !f.name.startsWith('.') && !f.name.includes('DS_Store'));
-
-    const newFiles: ProgramFile[] = validFiles.map((file) => ({
-      id: Math.random().toString(36).substring(7),
-      name: file.name,
-      content: '', 
-      language: file.name.split('.').pop()?.toLowerCase() || 'text',
-      status: FileStatus.PENDING,
-    }));
-
-    validFiles.forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setFiles(prev => {
-          const updated = [...prev];
-          const match = updated.find(f => f.name === file.name && f.content === '');
-          if (match) match.content = content;
-          return updated;
-        });
-      };
-      reader.readAsText(file);
+  const applySession = (stored: StoredSession) => {
+    const { snapshot } = stored;
+    const { settings } = snapshot;
+    sessionIdRef.current = snapshot.sessionId;
+    dispatch({ type: 'restore', files: restoreFiles(stored) });
+    setFolderPattern(settings.folderPattern);
+    setScreenshotPattern(settings.screenshotPattern);
+    setCodePattern(settings.codePattern ?? DEFAULT_PACKAGING_OPTIONS.codePattern);
+    setStartIndex(settings.startIndex);
+    setIsNumberingEnabled(settings.isNumberingEnabled);
+    // Sessions saved before archive layouts existed don't carry them.
+    setLayout(settings.layout ?? DEFAULT_PACKAGING_OPTIONS.layout);
+    setRootPattern(settings.rootPattern ?? DEFAULT_PACKAGING_OPTIONS.rootPattern);
+    setStudent({ ...DEFAULT_PACKAGING_OPTIONS.student, ...settings.student });
+    setExecutionMode(settings.executionMode);
+    setGradingOptions(settings.gradingOptions);
+    setAiSettings(prev => ({ ...prev, ...settings.aiSettings }));
+    setCodeSnapshots({ ...DEFAULT_CODE_SNAPSHOTS, ...settings.codeSnapshots });
+    setSnapshotStyle({ ...DEFAULT_SNAPSHOT_STYLE, ...settings.snapshotStyle });
+    setBatch({ ...DEFAULT_BATCH_SETTINGS, ...settings.batch });
+    setVerifySimulations(settings.verifySimulations ?? false);
+  };
+
+  const resumeSession = () => {
+    if (!resumable) return;
+    applySession(resumable);
+    setResumable(null);
+  };
+
+  // Student details are kept across sessions
+  useEffect(() => {
+    loadStudentInfo().then(stored => {
+      if (stored) setStudent(prev => ({ ...prev, ...stored }));
+      isProfileLoaded.current = true;
     });
+  }, []);
+
+  useEffect(() => {
+    if (isProfileLoaded.current) saveStudentInfo(student);
+  }, [student]);
 
-    setFiles(prev => [...prev, ...newFiles]);
+  // ...and so is the snapshot style
+  useEffect(() => {
+    loadSnapshotStyle().then(stored => {
+      if (stored) setSnapshotStyle(prev => ({ ...prev, ...stored }));
+      isSnapshotStyleLoaded.current = true;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isSnapshotStyleLoaded.current) saveSnapshotStyle(snapshotStyle);
+  }, [snapshotStyle]);
+
+  // ...as are custom prompt templates
+  useEffect(() => {
+    loadPromptTemplates().then(stored => {
+      if (stored) setPromptTemplates(stored as PromptTemplates);
+    });
+  }, []);
+
+  useEffect(() => {
+    setPromptDraft(resolveTemplate(promptKey, promptTemplates));
+  }, [promptKey, promptTemplates]);
+
+  const updatePromptTemplates = (templates: PromptTemplates) => {
+    setPromptTemplates(templates);
+    savePromptTemplates(templates);
+  };
+
+  const resetPromptTemplate = () => {
+    const { [promptKey]: _removed, ...rest } = promptTemplates;
+    updatePromptTemplates(rest);
+  };
+
+  useEffect(() => {
+    queue.setConcurrency(batch.concurrency);
+    rateLimiter.setRequestsPerMinute(batch.requestsPerMinute);
+  }, [batch]);
+
+  // Re-grade finished files whenever the comparison options change
+  useEffect(() => {
+    dispatch({ type: 'regrade', gradingOptions });
+  }, [gradingOptions]);
+
+  const formatName = (pattern: string, file: Pick<ProgramFile, 'name'>, index: number) =>
+    formatPattern(pattern, file, index, packagingOptions);
+
+  const formatChrome = (text: string, file: Pick<ProgramFile, 'name'>) => formatTerminalChrome(text, file, snapshotStyle);
+
+  const addUploadedFiles = (uploaded: UploadedText[]) => {
+    const { programs, skipped } = createProgramFiles(uploaded);
+    dispatch({ type: 'add', files: programs });
+    setSkippedUploads(skipped);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploadedFiles = event.target.files;
+    if (!uploadedFiles) return;
+
+    const uploaded = await readBrowserFiles(uploadedFiles);
     event.target.value = '';
+    addUploadedFiles(uploaded);
   };
 
-  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
-
-  const getErrorStatus = (error: unknown): number | undefined => {
-    // @google/genai throws ApiError with a JSON payload in message, but structure can vary.
-    const anyErr = error as any;
-    const direct =
-      anyErr?.status ??
-      anyErr?.code ??
-      anyErr?.response?.status ??
-      anyErr?.error?.code ??
-      anyErr?.error?.status;
-    if (typeof direct === 'number') return direct;
-    return undefined;
+  const loadWorkspace = async () => {
+    try {
+      addUploadedFiles(await requestHost<UploadedText[]>('loadWorkspace'));
+    } catch (err) {
+      console.error('Loading workspace failed:', err);
+      alert('Could not read the workspace files.');
+    }
   };
 
-  const generateOutput = async (file: ProgramFile) => {
-    const isHtml = file.language === 'html';
-    
+  // Runs the program for real and compares the result with what the simulator said it would print.
+  const verifyRun = async (file: ProgramFile, simulated: string, stdin?: string): Promise<Verification> => {
+    if (!canRunLocally(file)) {
+      return {
+        status: 'unverifiable',
+        reason: isLocalExecutionAvailable()
+          ? `${findLanguage(file.language)?.name ?? file.language} programs can't be run locally`
+          : 'Real runs need the VS Code extension'
+      };
+    }
     try {
-      // Use a generally-available fast model (preview models can be more quota-limited).
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const prompt = isHtml 
-        ? `Act as a Browser Developer Tools Console. Analyze the following HTML/JavaScript code. Provide ONLY the console logs (console.log, console.error, console.warn) that would be printed to the developer console upon page load. If there are no logs, return "Console was cleared.". Do not explain anything. 
-           
-           Code:
-           ${file.content}`
-        : `Act as a terminal environment. Run the following ${file.language} code and provide ONLY the standard output as it would appear in a command line interface. Do not explain anything. If there is an error, show the error message. 
-        
-           Code:
-           ${file.content}`;
-
-      // Backoff + retry for transient rate limits (429).
-      // NOTE: If your account quota is fully exhausted, retries won't help and we'll show a clear message.
-      const maxAttempts = 4;
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        try {
-          const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-              temperature: 0.1,
-              systemInstruction: isHtml
-                ? "You are a web browser console. Extract and print only the log outputs from the code provided."
-                : "You are a precise code execution simulator. Output exactly what a terminal would print."
-            }
-          });
-          return response.text || (isHtml ? "Console was cleared." : "No output generated.");
-        } catch (err) {
-          const status = getErrorStatus(err);
-          const isRateLimited = status === 429 || String(err).includes('429') || String(err).includes('RESOURCE_EXHAUSTED');
-          if (!isRateLimited || attempt === maxAttempts) {
-            throw err;
-          }
-          // Exponential backoff: 1.5s, 3s, 6s...
-          const delayMs = Math.round(1500 * Math.pow(2, attempt - 1));
-          await sleep(delayMs);
-        }
-      }
-      return isHtml ? "Console was cleared." : "No output generated.";
-    } catch (error) {
-      console.error("AI Error:", error);
-      const status = getErrorStatus(error);
-      if (status === 429 || String(error).includes('RESOURCE_EXHAUSTED')) {
-        return [
-          "Execution Error: Gemini API quota/rate limit exceeded (429).",
-          "Fix: wait a bit, reduce batch size, or enable billing / increase quota in Google AI Studio.",
-          "Docs: https://ai.google.dev/gemini-api/docs/rate-limits"
-        ].join('\n');
+      return verifySimulation(simulated, await runLocally(file, stdin), gradingOptions);
+    } catch (err) {
+      return { status: 'unverifiable', reason: err instanceof Error ? err.message : 'Local run failed' };
+    }
+  };
+
+  const executeProgram = async (file: ProgramFile, stdin?: string): Promise<RunPatch> => {
+    // Notebooks already contain their outputs
+    if (findLanguage(file.language)?.kind === 'notebook') {
+      return { output: notebookOutput(parseNotebook(file.content)) };
+    }
+    // Pages run for real in their sandbox (HTML programs have a single run slot, keyed by file id)
+    if (findLanguage(file.language)?.kind === 'browser') {
+      const sandbox = sandboxRefs.current[file.id];
+      if (!sandbox) return { output: 'Execution Error: The page preview is not rendered.' };
+      return { output: formatConsole(await sandbox.run()) || 'Console was cleared.' };
+    }
+    // Real run when possible, AI simulation otherwise
+    if (executionMode === 'local' && canRunLocally(file)) {
+      try {
+        const runResult = await runLocally(file, stdin, true);
+        return { output: formatRunOutput(runResult), transcript: formatRunTranscript(runResult), runResult };
+      } catch (err) {
+        console.error(`Local run failed for ${file.name}:`, err);
+        return { output: `Execution Error: ${err instanceof Error ? err.message : 'Local run failed.'}` };
       }
-      return "Execution Error: Failed to generate output via AI.";
     }
+    const simulated = await generateOutput(file, aiSettings, stdin, rateLimiter, promptTemplates);
+    return {
+      ...simulated,
+      simulated: true,
+      verification: verifySimulations ? await verifyRun(file, simulated.output, stdin) : undefined
+    };
   };
 
-  const processSingleFile = async (fileId: string) => {
-    // 1. Mark as running
-    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: FileStatus.RUNNING } : f));
+  const updateInputs = (fileId: string, inputs: InputSet[]) => dispatch({ type: 'setInputs', id: fileId, inputs });
 
-    // 2. Get the file data
-    const currentFiles = [...files];
-    const file = currentFiles.find(f => f.id === fileId);
+  const captureElement = async (el: HTMLElement) => {
+    const canvas = await toCanvas(el, {
+      cacheBust: true,
+      backgroundColor: terminalPreset.backdrop,
+      pixelRatio: snapshotStyle.imageScale
+    });
+    const { mimeType } = IMAGE_FORMATS[snapshotStyle.imageFormat];
+    return new Promise<Blob>((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`Could not encode the snapshot as ${mimeType}`)),
+      mimeType,
+      0.95
+    ));
+  };
+
+  const processSingleFile = async (fileId: string) => {
+    // 1. Get the file as it is now (not as it was when the batch started), and mark it as running
+    const file = fileStore.getState().find(f => f.id === fileId);
     if (!file) return;
+    dispatch({ type: 'setStatus', id: fileId, status: FileStatus.RUNNING });
+    const slots = getRunSlots(file);
 
-    // 3. Generate Output
-    const output = await generateOutput(file);
+    // 2-3. Generate output for every input set
+    for (const slot of slots) {
+      const patch = await executeProgram(file, slot.stdin);
+      // Nothing from an earlier run (possibly in the other mode) may outlive this one
+      dispatch({
+        type: 'setRunResult',
+        id: fileId,
+        inputId: slot.inputId,
+        patch: { transcript: undefined, runResult: undefined, simulated: undefined, verification: undefined, originalOutput: undefined, ...patch }
+      });
+    }
     
-    // 4. Update status and output
-    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, output, status: FileStatus.COMPLETED } : f));
+    // 4. Update status, comparing against expected outputs where we have them
+    dispatch({ type: 'complete', id: fileId, gradingOptions });
 
     // 5. Short wait for UI update
     await new Promise(resolve => setTimeout(resolve, 800));
 
-    // 6. Capture screenshot
-    const terminalEl = terminalRefs.current[fileId];
-    if (terminalEl) {
+    await captureSnapshots(file);
+  };
+
+  // Steps 6-7 of a run, also used on their own to re-capture a file whose output was edited.
+  const captureSnapshots = async (file: ProgramFile) => {
+    const fileId = file.id;
+    const slots = getRunSlots(file);
+
+    // 6. Capture one screenshot per run
+    for (const slot of slots) {
+      const terminalEl = terminalRefs.current[slot.key];
+      if (!terminalEl) continue;
+      // A live page can't be cloned into the capture, so it is swapped for a picture of itself first.
+      const sandbox = sandboxRefs.current[slot.key];
       try {
-        const dataUrl = await toPng(terminalEl, { 
-          quality: 0.95, 
-          cacheBust: true,
-          backgroundColor: '#f8fafc',
-          pixelRatio: 1.5 // Reduced slightly from 2 to speed up PNG generation
-        });
-        const response = await fetch(dataUrl);
-        const blob = await response.blob();
-        setFiles(prev => prev.map(f => f.id === fileId ? { ...f, imageBlob: blob } : f));
+        await sandbox?.freeze(snapshotStyle.imageScale);
+        const blob = await captureElement(terminalEl);
+        dispatch({ type: 'setRunResult', id: fileId, inputId: slot.inputId, patch: { imageBlob: blob } });
+        await persistSessionImage(sessionIdRef.current, slot.key, blob);
       } catch (err) {
-        console.error(`Screenshot failed for ${file.name}:`, err);
-        setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: FileStatus.ERROR } : f));
+        console.error(`Screenshot failed for ${file.name}${slot.label ? ` (${slot.label})` : ''}:`, err);
+        dispatch({ type: 'setStatus', id: fileId, status: FileStatus.ERROR });
+      } finally {
+        sandbox?.unfreeze();
+      }
+    }
+
+    // 7. Capture the highlighted source, one image per page
+    if (!codeSnapshots.enabled) return;
+    const { code, language } = codeView(file);
+    const pageCount = paginateCode(code, language, codeSnapshots.linesPerImage).length;
+    const codeImages: Blob[] = [];
+    try {
+      for (let page = 0; page < pageCount; page++) {
+        const codeEl = codeRefs.current[codeImageKey(fileId, page)];
+        if (!codeEl) throw new Error(`Code page ${page + 1} is not rendered`);
+        const blob = await captureElement(codeEl);
+        codeImages.push(blob);
+        await persistSessionImage(sessionIdRef.current, codeImageKey(fileId, page), blob);
       }
+      dispatch({ type: 'setCodeImages', id: fileId, codeImages });
+    } catch (err) {
+      console.error(`Code snapshot failed for ${file.name}:`, err);
+      dispatch({ type: 'setStatus', id: fileId, status: FileStatus.ERROR });
+    }
+  };
+
+  processRef.current = processSingleFile;
+
+  const processAll = () => {
+    queue.enqueue(fileStore.getState().filter(f => f.status !== FileStatus.COMPLETED && f.status !== FileStatus.MISMATCH).map(f => f.id));
+  };
+
+  const retryFile = (fileId: string) => queue.enqueue([fileId]);
+
+  // A panel opened from the Programs view resumes the stored session before running anything.
+  useEffect(() => {
+    if (!requestedRun) return;
+    if (files.length === 0 && resumable) {
+      resumeSession();
+      return;
+    }
+    setRequestedRun(null);
+    if (!requestedRun.ids) {
+      processAll();
+      return;
     }
+    queue.enqueue(requestedRun.ids.filter(id => files.some(file => file.id === id)));
+  }, [requestedRun, files, resumable]);
+
+  // Takes the screenshots again from what is shown now, without running anything.
+  const recaptureFile = async (fileId: string) => {
+    dispatch({ type: 'complete', id: fileId, gradingOptions });
+    const file = fileStore.getState().find(f => f.id === fileId);
+    if (file) await captureSnapshots(file);
+  };
+
+  const startEditing = (file: ProgramFile) => {
+    setEditingId(file.id);
+    setSourceDraft(file.content);
+    setOutputDrafts(Object.fromEntries(getRunSlots(file).map(slot => [slot.key, slot.output ?? ''])));
+  };
+
+  const saveEdits = (file: ProgramFile) => {
+    if (sourceDraft !== file.content) dispatch({ type: 'editSource', id: file.id, content: sourceDraft });
+    getRunSlots(file).forEach(slot => {
+      const output = outputDrafts[slot.key];
+      if (output !== undefined && output !== (slot.output ?? '')) {
+        dispatch({ type: 'editOutput', id: file.id, inputId: slot.inputId, output, gradingOptions });
+      }
+    });
+    setEditingId(null);
   };
 
-  const processAll = async () => {
-    if (isProcessing) return;
-    setIsProcessing(true);
+  const submissionName = () => `Lab_Submission_${new Date().toISOString().split('T')[0]}`;
 
-    // Process files sequentially to avoid Gemini rate limits/quota errors in a webview.
-    const filesToProcess = files.filter(f => f.status !== FileStatus.COMPLETED);
-    for (const file of filesToProcess) {
-      await processSingleFile(file.id);
-      // Small delay between calls helps avoid 429 spikes.
-      await sleep(700);
+  const deliverFile = async (fileName: string, content: Blob) => {
+    if (isVsCodeWebview()) {
+      // <a download> is unreliable inside webviews, so the extension host writes the file.
+      const data = new Uint8Array(await content.arrayBuffer());
+      const result = await requestHost<SaveResult>('saveFile', { fileName, data });
+      if (result.saved) setSavedTo(result.location ?? fileName);
+      return;
     }
 
-    setIsProcessing(false);
+    const url = URL.createObjectURL(content);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    setSavedTo(fileName);
   };
 
-  const downloadAll = async () => {
+  const exportAs = async (format: ExportFormat) => {
     try {
-      const zip = new JSZip();
+      const content = await exportSubmission(format, files, packagingOptions, { docxTemplate: docxTemplate?.data });
+      await deliverFile(`${submissionName()}.${EXPORT_FORMATS[format].extension}`, content);
+    } catch (err) {
+      console.error(`${format.toUpperCase()} export failed:`, err);
+      alert(err instanceof SubmissionLayoutError ? err.message : `Failed to generate the ${format.toUpperCase()} file. Please try again.`);
+    }
+  };
 
-      files.forEach((file, index) => {
-        const folderName = formatName(folderPattern, file, index);
-        const screenshotName = formatName(screenshotPattern, file, index);
-        const folder = zip.folder(folderName);
-        
-        if (folder) {
-          folder.file(file.name, file.content);
-          if (file.imageBlob) {
-            folder.file(`${screenshotName}.png`, file.imageBlob);
-          }
-        }
-      });
+  const handleTemplateUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setDocxTemplate({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) });
+  };
 
-      const content = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `Lab_Submission_${new Date().toISOString().split('T')[0]}.zip`;
-      link.click();
-      
-      // Reset the application to home screen after download
-      setTimeout(() => {
-        setFiles([]);
-        setIsProcessing(false);
-        URL.revokeObjectURL(url);
-      }, 1000);
+  // VS Code only: write the unpacked tree (sources, screenshots, reports) into a folder.
+  const saveAsFolder = async () => {
+    try {
+      const entries = await readSubmissionEntries(files, packagingOptions);
+      const result = await requestHost<SaveResult>('saveFolder', { folderName: submissionName(), entries });
+      if (result.saved) setSavedTo(result.location ?? submissionName());
     } catch (err) {
-      console.error("Download failed:", err);
-      alert("Failed to generate zip file. Please try again.");
+      console.error("Saving folder failed:", err);
+      alert(err instanceof SubmissionLayoutError ? err.message : "Failed to save the submission folder. Please try again.");
     }
   };
 
+  const resetSession = () => {
+    queue.cancel();
+    dispatch({ type: 'clear' });
+    clearStoredSession();
+    sessionIdRef.current = createSessionId();
+    setSkippedUploads([]);
+  };
+
+  const startNewSession = () => {
+    resetSession();
+    setSavedTo(null);
+  };
+
   const removeFile = (id: string) => {
-    setFiles(files.filter(f => f.id !== id));
+    // Removing the last program ends the session, like Clear All: the save effect skips empty
+    // sessions, so otherwise the stored one would bring the removed programs back.
+    if (fileStore.getState().every(file => file.id === id)) {
+      resetSession();
+      return;
+    }
+    dispatch({ type: 'remove', id });
   };
 
   const clearAll = () => {
     if (confirm("Clear all uploaded files?")) {
-      setFiles([]);
+      resetSession();
     }
   };
 
@@ -290,6 +631,29 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex flex-wrap gap-3">
+          <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-bold">
+            <button
+              onClick={() => setExecutionMode('local')}
+              disabled={!isLocalExecutionAvailable() || isProcessing}
+              title={isLocalExecutionAvailable() ? 'Compile and run with locally installed toolchains' : 'Local runs are only available inside VS Code'}
+              className={`px-3 py-1 rounded-md transition-all disabled:cursor-not-allowed ${
+                executionMode === 'local' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'
+              }`}
+            >
+              Local Run
+            </button>
+            <button
+              onClick={() => setExecutionMode('ai')}
+              disabled={isProcessing}
+              title="Simulate output with Gemini"
+              className={`px-3 py-1 rounded-md transition-all ${
+                executionMode === 'ai' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'
+              }`}
+            >
+              AI Simulate
+            </button>
+          </div>
+
           <button 
             ref={settingsButtonRef}
             onClick={() => setShowSettings(!showSettings)}
@@ -298,7 +662,7 @@ const App: React.FC = () => {
             }`}
           >
             <Cog6ToothIcon className="w-5 h-5" />
-            Naming Settings
+            Settings
           </button>
 
           <label className="cursor-pointer bg-white border border-slate-200 text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-50 transition-all flex items-center gap-2 font-semibold text-sm">
@@ -317,6 +681,16 @@ const App: React.FC = () => {
             Select Files
             <input type="file" multiple className="hidden" onChange={handleFileUpload} />
           </label>
+
+          {isVsCodeWebview() && (
+            <button
+              onClick={loadWorkspace}
+              className="bg-white border border-slate-200 text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-50 transition-all flex items-center gap-2 font-semibold text-sm"
+            >
+              <FolderIcon className="w-5 h-5 text-indigo-500" />
+              Current Workspace
+            </button>
+          )}
           
           <button 
             onClick={processAll}
@@ -390,7 +764,7 @@ const App: React.FC = () => {
                       className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
                       placeholder="e.g., [name]_output"
                     />
-                    <p className="mt-1 text-[10px] text-slate-400 italic">Preview: {formatName(screenshotPattern, { name: 'program.py' } as any, 0)}.png</p>
+                    <p className="mt-1 text-[10px] text-slate-400 italic">Preview: {formatName(screenshotPattern, { name: 'program.py' } as any, 0)}.{imageExtension}</p>
                   </div>
                 </div>
 
@@ -407,6 +781,530 @@ const App: React.FC = () => {
                     className="w-32 bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
                   />
                 </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Archive Layout</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Layout</label>
+                      <select
+                        value={layout}
+                        onChange={(e) => setLayout(e.target.value as ArchiveLayout)}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        {(Object.keys(ARCHIVE_LAYOUT_LABELS) as ArchiveLayout[]).map(value => (
+                          <option key={value} value={value}>{ARCHIVE_LAYOUT_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Root Folder Pattern</label>
+                      <input
+                        type="text"
+                        value={rootPattern}
+                        onChange={(e) => setRootPattern(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder="e.g., [roll]_[lab] (empty for none)"
+                      />
+                      <p className="mt-1 text-[10px] text-slate-400 italic">
+                        {rootPattern.trim() ? `Preview: /${formatRootName(rootPattern, packagingOptions)}/` : 'No root folder'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Batch Processing</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Programs at Once</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={16}
+                        value={batch.concurrency}
+                        onChange={(e) => setBatch({ ...batch, concurrency: Math.min(16, Math.max(1, parseInt(e.target.value) || 1)) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">AI Requests per Minute</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={batch.requestsPerMinute}
+                        onChange={(e) => setBatch({ ...batch, requestsPerMinute: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                      <p className="mt-1 text-[10px] text-slate-400 italic">0 for no limit. Rate-limit errors (429) still pause every job while backing off.</p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Snapshot Style</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Terminal Preset</label>
+                      <select
+                        value={snapshotStyle.preset}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, preset: e.target.value as TerminalPreset })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        {(Object.keys(TERMINAL_PRESETS) as TerminalPreset[]).map(value => (
+                          <option key={value} value={value}>{TERMINAL_PRESETS[value].label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Prompt</label>
+                      <input
+                        type="text"
+                        value={snapshotStyle.prompt}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, prompt: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder={terminalPreset.prompt}
+                      />
+                      <p className="mt-1 text-[10px] text-slate-400 italic">[user], [host] and [file] are filled in; leave empty for the preset's prompt.</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Username</label>
+                      <input
+                        type="text"
+                        value={snapshotStyle.username}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, username: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Hostname</label>
+                      <input
+                        type="text"
+                        value={snapshotStyle.hostname}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, hostname: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Font Size</label>
+                      <input
+                        type="number"
+                        min={10}
+                        max={24}
+                        value={snapshotStyle.fontSize}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, fontSize: parseInt(e.target.value) || DEFAULT_SNAPSHOT_STYLE.fontSize })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Image Scale</label>
+                      <select
+                        value={snapshotStyle.imageScale}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, imageScale: parseFloat(e.target.value) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        {[1, 1.5, 2, 3].map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">HTML Viewport</label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={320}
+                          value={snapshotStyle.viewportWidth}
+                          onChange={(e) => setSnapshotStyle({ ...snapshotStyle, viewportWidth: parseInt(e.target.value) || DEFAULT_SNAPSHOT_STYLE.viewportWidth })}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        />
+                        <span className="text-slate-400 text-sm">&times;</span>
+                        <input
+                          type="number"
+                          min={240}
+                          value={snapshotStyle.viewportHeight}
+                          onChange={(e) => setSnapshotStyle({ ...snapshotStyle, viewportHeight: parseInt(e.target.value) || DEFAULT_SNAPSHOT_STYLE.viewportHeight })}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        />
+                      </div>
+                      <p className="mt-1 text-[10px] text-slate-400 italic">Size pages are laid out and captured at, in CSS pixels.</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Image Format</label>
+                      <select
+                        value={snapshotStyle.imageFormat}
+                        onChange={(e) => setSnapshotStyle({ ...snapshotStyle, imageFormat: e.target.value as ImageFormat })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map(value => (
+                          <option key={value} value={value}>{IMAGE_FORMATS[value].label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-bold text-slate-700">Source Snapshots</h3>
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={codeSnapshots.enabled}
+                        disabled={isProcessing}
+                        onChange={(e) => setCodeSnapshots({ ...codeSnapshots, enabled: e.target.checked })}
+                      />
+                      <div className="w-9 h-5 bg-slate-200 rounded-full peer peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-indigo-600"></div>
+                    </label>
+                  </div>
+                  <div className={`grid grid-cols-1 md:grid-cols-3 gap-4 transition-opacity ${!codeSnapshots.enabled ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Theme</label>
+                      <select
+                        value={codeSnapshots.theme}
+                        onChange={(e) => setCodeSnapshots({ ...codeSnapshots, theme: e.target.value as CodeTheme })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        {(Object.keys(CODE_THEMES) as CodeTheme[]).map(value => (
+                          <option key={value} value={value}>{CODE_THEMES[value].label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Lines per Image</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={codeSnapshots.linesPerImage}
+                        onChange={(e) => setCodeSnapshots({ ...codeSnapshots, linesPerImage: Math.max(1, parseInt(e.target.value) || 0) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Image Name Pattern</label>
+                      <input
+                        type="text"
+                        value={codePattern}
+                        onChange={(e) => setCodePattern(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder="e.g., [name]_code"
+                      />
+                      <p className="mt-1 text-[10px] text-slate-400 italic">Preview: {formatName(codePattern, { name: 'program.py' } as any, 0)}.{imageExtension}</p>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Word Template</h3>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="cursor-pointer px-3 py-1 rounded-lg bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50">
+                      {docxTemplate ? 'Replace…' : 'Choose .docx…'}
+                      <input
+                        type="file"
+                        accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                        className="hidden"
+                        onChange={handleTemplateUpload}
+                      />
+                    </label>
+                    <span className={`text-xs font-bold ${docxTemplate ? 'text-green-600' : 'text-slate-400'}`}>
+                      {docxTemplate ? docxTemplate.name : 'Built-in layout'}
+                    </span>
+                    {docxTemplate && (
+                      <button
+                        onClick={() => setDocxTemplate(null)}
+                        className="px-3 py-1 rounded-lg text-xs font-bold text-slate-400 hover:text-red-500"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-2 text-[10px] text-slate-400 italic">
+                    Placeholders: {DOCX_PLACEHOLDERS.join(' ')}. Put {'{{programs}}'} in its own paragraph where the programs should go.
+                  </p>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Student &amp; Course</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Student Name</label>
+                      <input
+                        type="text"
+                        value={student.studentName}
+                        onChange={(e) => setStudent({ ...student, studentName: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Roll Number</label>
+                      <input
+                        type="text"
+                        value={student.rollNumber}
+                        onChange={(e) => setStudent({ ...student, rollNumber: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder="e.g., 21BCE1234"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Course</label>
+                      <input
+                        type="text"
+                        value={student.course}
+                        onChange={(e) => setStudent({ ...student, course: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder="e.g., CS201"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Lab Number</label>
+                      <input
+                        type="text"
+                        value={student.labNumber}
+                        onChange={(e) => setStudent({ ...student, labNumber: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder="e.g., 4"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-bold text-slate-700">Resulting Paths</h3>
+                    {namingProblemCount > 0 && (
+                      <span className="text-[10px] font-black uppercase tracking-wider text-red-500">
+                        {namingProblemCount} problem{namingProblemCount === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 max-h-48 overflow-y-auto custom-scrollbar font-mono text-[11px] space-y-1">
+                    {rootProblems.map(problem => (
+                      <p key={problem} className="text-red-500 font-sans font-semibold">{problem}</p>
+                    ))}
+                    {previewFiles.map((file, idx) => {
+                      const paths = previewPaths(file, idx);
+                      return (
+                        <div key={file.id}>
+                          <p className="text-slate-600">/{paths.source}</p>
+                          {paths.screenshots.map(path => <p key={path} className="text-slate-400">/{path}</p>)}
+                          {paths.codeImages.map(path => <p key={path} className="text-slate-400">/{path}</p>)}
+                          {nameChecks[idx].problems.map(problem => (
+                            <p key={problem} className="text-red-500 font-sans font-semibold">{problem}</p>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">AI Simulator</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Provider</label>
+                      <select
+                        value={aiSettings.provider}
+                        onChange={(e) => {
+                          const provider = e.target.value as AiSettings['provider'];
+                          setAiSettings({ ...aiSettings, provider, model: DEFAULT_MODELS[provider] });
+                        }}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        <option value="gemini">Gemini</option>
+                        <option value="openai-compatible">OpenAI-compatible (Ollama, llama.cpp…)</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Model</label>
+                      <input
+                        type="text"
+                        value={aiSettings.model}
+                        onChange={(e) => setAiSettings({ ...aiSettings, model: e.target.value })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Temperature</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={aiSettings.temperature}
+                        onChange={(e) => setAiSettings({ ...aiSettings, temperature: Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    {aiSettings.provider === 'openai-compatible' && (
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-600 mb-1">Base URL</label>
+                        <input
+                          type="text"
+                          value={aiSettings.baseUrl}
+                          onChange={(e) => setAiSettings({ ...aiSettings, baseUrl: e.target.value })}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                          placeholder="http://localhost:11434/v1"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-4 flex flex-wrap items-center gap-3">
+                    <span className="text-sm font-semibold text-slate-600">API Key</span>
+                    {isVsCodeWebview() ? (
+                      <>
+                        <span className={`text-xs font-bold ${aiSettings.apiKey ? 'text-green-600' : 'text-slate-400'}`}>
+                          {aiSettings.apiKey ? 'Stored in VS Code secret storage' : 'Not configured'}
+                        </span>
+                        <button
+                          onClick={() => requestHost('promptApiKey', { provider: aiSettings.provider })}
+                          className="px-3 py-1 rounded-lg bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50"
+                        >
+                          {aiSettings.apiKey ? 'Replace…' : 'Set Key…'}
+                        </button>
+                        {aiSettings.apiKey && (
+                          <button
+                            onClick={() => requestHost('clearApiKey', { provider: aiSettings.provider })}
+                            className="px-3 py-1 rounded-lg text-xs font-bold text-slate-400 hover:text-red-500"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <input
+                        type="password"
+                        value={aiSettings.apiKey}
+                        onChange={(e) => setAiSettings({ ...aiSettings, apiKey: e.target.value })}
+                        className="w-72 bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        placeholder={aiSettings.provider === 'gemini' ? 'Gemini API key' : 'Optional bearer token'}
+                        autoComplete="off"
+                      />
+                    )}
+                  </div>
+                  <label className="mt-4 flex items-center gap-2 text-sm font-semibold text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={verifySimulations}
+                      disabled={isProcessing}
+                      onChange={(e) => setVerifySimulations(e.target.checked)}
+                      className="accent-indigo-600"
+                    />
+                    Verify simulated outputs against real runs
+                  </label>
+                  <p className="mt-1 text-[10px] text-slate-400 italic">
+                    {isLocalExecutionAvailable()
+                      ? 'Every simulated program is also run locally, and runs whose outputs differ are flagged with a diff (compared using the Expected Output Comparison options).'
+                      : 'Real runs need the VS Code extension; here every simulated output is marked unverifiable.'}
+                  </p>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <div className="flex items-center gap-3 mb-3">
+                    <h3 className="text-sm font-bold text-slate-700">Prompt Templates</h3>
+                    {promptTemplates[promptKey] && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-full">Custom</span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Language</label>
+                      <select
+                        value={promptKey}
+                        onChange={(e) => setPromptKey(e.target.value)}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        <option value={DEFAULT_TEMPLATE_KEY}>Default (all terminal languages)</option>
+                        {LANGUAGES.filter(language => language.kind !== 'notebook').map(language => (
+                          <option key={language.id} value={language.id}>{language.name}{promptTemplates[language.id] ? ' •' : ''}</option>
+                        ))}
+                      </select>
+                      <div className="mt-3 space-y-1">
+                        {PROMPT_VARIABLES.map(({ token, description }) => (
+                          <div key={token} className="text-[11px] text-slate-500">
+                            <code className="font-mono text-indigo-600">{token}</code> {description}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="md:col-span-3 space-y-3">
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-600 mb-1">Prompt</label>
+                        <textarea
+                          value={promptDraft.prompt}
+                          onChange={(e) => setPromptDraft({ ...promptDraft, prompt: e.target.value })}
+                          rows={6}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-slate-600 mb-1">System Instruction</label>
+                        <textarea
+                          value={promptDraft.systemInstruction}
+                          onChange={(e) => setPromptDraft({ ...promptDraft, systemInstruction: e.target.value })}
+                          rows={2}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                        />
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <button
+                          onClick={() => updatePromptTemplates({ ...promptTemplates, [promptKey]: promptDraft })}
+                          className="px-3 py-1 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700"
+                        >
+                          Save Template
+                        </button>
+                        <button
+                          onClick={resetPromptTemplate}
+                          disabled={!promptTemplates[promptKey]}
+                          className="px-3 py-1 rounded-lg bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                        >
+                          Reset to Default
+                        </button>
+                        <span className="text-[11px] text-slate-400">
+                          {isVsCodeWebview()
+                            ? 'Saved to the workspace\'s .autolab.json if it has one, otherwise to the autolab.prompts.templates setting.'
+                            : 'Saved in this browser.'}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 mb-3">Expected Output Comparison</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Whitespace</label>
+                      <select
+                        value={gradingOptions.whitespace}
+                        onChange={(e) => setGradingOptions({ ...gradingOptions, whitespace: e.target.value as GradingOptions['whitespace'] })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      >
+                        <option value="exact">Exact</option>
+                        <option value="trailing">Ignore trailing</option>
+                        <option value="all">Ignore all</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-600 mb-1">Float Tolerance</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={gradingOptions.floatTolerance}
+                        onChange={(e) => setGradingOptions({ ...gradingOptions, floatTolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 py-2 text-sm font-semibold text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={gradingOptions.ignoreCase}
+                        onChange={(e) => setGradingOptions({ ...gradingOptions, ignoreCase: e.target.checked })}
+                        className="accent-indigo-600"
+                      />
+                      Ignore case
+                    </label>
+                  </div>
+                </div>
               </div>
 
               <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 h-full">
@@ -415,22 +1313,15 @@ const App: React.FC = () => {
                   <span className="text-xs font-bold uppercase tracking-wider">Placeholders</span>
                 </div>
                 <div className="space-y-2">
-                  <div className={`flex items-center justify-between text-xs transition-opacity ${!isNumberingEnabled ? 'opacity-30' : 'opacity-100'}`}>
-                    <code className="bg-white px-1.5 py-0.5 rounded border border-slate-200 text-indigo-600 font-bold">[index]</code>
-                    <span className="text-slate-500 text-[10px]">Serial ID</span>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <code className="bg-white px-1.5 py-0.5 rounded border border-slate-200 text-indigo-600 font-bold">[name]</code>
-                    <span className="text-slate-500 text-[10px]">File without ext</span>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <code className="bg-white px-1.5 py-0.5 rounded border border-slate-200 text-indigo-600 font-bold">[ext]</code>
-                    <span className="text-slate-500 text-[10px]">Extension only</span>
-                  </div>
-                  <div className="flex items-center justify-between text-xs">
-                    <code className="bg-white px-1.5 py-0.5 rounded border border-slate-200 text-indigo-600 font-bold">[full]</code>
-                    <span className="text-slate-500 text-[10px]">Original filename</span>
-                  </div>
+                  {PLACEHOLDER_HELP.map(({ token, description }) => (
+                    <div
+                      key={token}
+                      className={`flex items-center justify-between text-xs transition-opacity ${!isNumberingEnabled && token.startsWith('[index') ? 'opacity-30' : 'opacity-100'}`}
+                    >
+                      <code className="bg-white px-1.5 py-0.5 rounded border border-slate-200 text-indigo-600 font-bold">{token}</code>
+                      <span className="text-slate-500 text-[10px]">{description}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -438,6 +1329,67 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {executionMode === 'ai' && isApiKeyMissing && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-3 flex flex-wrap items-center justify-center gap-3 text-sm text-amber-800">
+          <InformationCircleIcon className="w-5 h-5 flex-shrink-0" />
+          <span className="font-semibold">No Gemini API key configured — AI simulation is unavailable.</span>
+          {isVsCodeWebview() ? (
+            <button
+              onClick={() => requestHost('promptApiKey', { provider: 'gemini' })}
+              className="px-3 py-1 rounded-lg bg-amber-600 text-white text-xs font-bold hover:bg-amber-700"
+            >
+              Set API Key
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowSettings(true)}
+              className="px-3 py-1 rounded-lg bg-amber-600 text-white text-xs font-bold hover:bg-amber-700"
+            >
+              Open Settings
+            </button>
+          )}
+        </div>
+      )}
+
+      {savedTo && (
+        <div className="bg-emerald-50 border-b border-emerald-200 px-6 py-3 flex flex-wrap items-center justify-center gap-3 text-sm text-emerald-800">
+          <ArrowDownTrayIcon className="w-5 h-5 flex-shrink-0" />
+          <span className="font-semibold">
+            {isVsCodeWebview() ? 'Submission saved to' : 'Download started:'} <code className="font-mono text-xs">{savedTo}</code>
+          </span>
+          <span className="text-emerald-700">Check it, then start a new session.</span>
+          <button
+            onClick={startNewSession}
+            className="px-3 py-1 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700"
+          >
+            Start New Session
+          </button>
+          <button
+            onClick={() => setSavedTo(null)}
+            className="px-3 py-1 rounded-lg text-xs font-bold text-emerald-700 hover:bg-emerald-100"
+          >
+            Keep Working
+          </button>
+        </div>
+      )}
+
+      {skippedUploads.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-3 flex items-start justify-center gap-3 text-sm text-amber-800">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <div>
+            <span className="font-semibold">Skipped {skippedUploads.length} file{skippedUploads.length === 1 ? '' : 's'}:</span>
+            <ul className="mt-1 text-xs space-y-0.5">
+              {skippedUploads.map(skipped => (
+                <li key={skipped.path}><code className="font-mono">{skipped.path}</code> ({skipped.reason})</li>
+              ))}
+            </ul>
+          </div>
+          <button onClick={() => setSkippedUploads([])} title="Dismiss" className="text-amber-600 hover:text-amber-900">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <main className="max-w-7xl mx-auto p-6 lg:p-10">
         {files.length === 0 ? (
           <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center shadow-sm">
@@ -464,7 +1416,29 @@ const App: React.FC = () => {
                 Select Individual Files
                 <input type="file" multiple className="hidden" onChange={handleFileUpload} />
               </label>
+              {isVsCodeWebview() && (
+                <button
+                  onClick={loadWorkspace}
+                  className="bg-white border border-slate-200 text-slate-700 px-8 py-4 rounded-xl hover:bg-slate-50 transition-all font-bold shadow-sm flex items-center gap-2"
+                >
+                  <FolderIcon className="w-6 h-6 text-slate-400" />
+                  Use Current Workspace
+                </button>
+              )}
             </div>
+            {resumable && (
+              <div className="mt-8 flex flex-wrap items-center justify-center gap-3 text-sm text-slate-500">
+                <span>
+                  Last session: {resumable.snapshot.files.length} program{resumable.snapshot.files.length === 1 ? '' : 's'}, saved {new Date(resumable.snapshot.savedAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={resumeSession}
+                  className="px-4 py-2 rounded-lg bg-indigo-50 text-indigo-600 font-bold hover:bg-indigo-100 transition-all"
+                >
+                  Resume Last Session
+                </button>
+              </div>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 xl:grid-cols-4 gap-8">
@@ -492,26 +1466,70 @@ const App: React.FC = () => {
                         <div className={`flex-shrink-0 w-2 h-2 rounded-full ${
                           file.status === FileStatus.COMPLETED ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : 
                           file.status === FileStatus.RUNNING ? 'bg-amber-500 animate-pulse' : 
+                          file.status === FileStatus.MISMATCH ? 'bg-orange-500' :
                           file.status === FileStatus.ERROR ? 'bg-red-500' : 'bg-slate-300'
                         }`} />
+                        <FileTypeIcon language={file.language} />
                         <span className="font-bold text-slate-700 truncate text-xs">
                           {isNumberingEnabled && `${startIndex + idx}. `}{file.name}
                         </span>
+                        {queueProgress.queuedIds.includes(file.id) && (
+                          <span className="flex-shrink-0 text-[9px] font-bold uppercase tracking-wider text-slate-400">Queued</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {file.status !== FileStatus.PENDING && file.status !== FileStatus.RUNNING && !queueProgress.queuedIds.includes(file.id) && (
+                          <button onClick={() => retryFile(file.id)} title="Run again" className="text-slate-300 hover:text-indigo-500 transition-colors">
+                            <ArrowPathIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button onClick={() => removeFile(file.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
                       </div>
-                      <button onClick={() => removeFile(file.id)} className="flex-shrink-0 text-slate-300 hover:text-red-500 transition-colors">
-                        <TrashIcon className="w-4 h-4" />
-                      </button>
                     </div>
+                    {(file.path !== undefined && file.path !== file.name || !!file.sources?.length) && (
+                      <div className="pl-4 text-[10px] text-slate-400 font-mono truncate" title={file.sources?.map(source => source.path).join('\n')}>
+                        {file.path ?? file.name}
+                        {!!file.sources?.length && <span className="ml-2 font-sans font-bold text-indigo-400">+{file.sources.length} file{file.sources.length === 1 ? '' : 's'}</span>}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
+
+              {/* Batch summary: screenshots nobody has confirmed */}
+              {!isProcessing && unverifiedSnapshots(files).length > 0 && (
+                <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-800">
+                  <div className="flex items-center gap-2 text-xs font-bold">
+                    <ShieldCheckIcon className="w-4 h-4 flex-shrink-0" />
+                    Unverified simulated output
+                  </div>
+                  <p className="mt-1 text-[10px] text-amber-700">
+                    These screenshots show AI-simulated output that no real run confirmed{verifySimulations ? '' : ' (turn on verification in Settings → AI Simulator)'}:
+                  </p>
+                  <ul className="mt-2 space-y-1 text-[11px]">
+                    {unverifiedSnapshots(files).map(({ file, slots }) => (
+                      <li key={file.id} className="flex items-start justify-between gap-2">
+                        <span className="font-mono truncate" title={file.path ?? file.name}>
+                          {file.name}{slots.some(slot => slot.label) ? ` (${slots.map(slot => slot.label).join(', ')})` : ''}
+                        </span>
+                        <span className="flex-shrink-0 text-[9px] font-bold uppercase tracking-wider">
+                          {slots.some(slot => slot.verification?.status === 'divergent') ? 'Divergent'
+                            : slots.some(slot => slot.verification) ? 'Unverifiable' : 'Not checked'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             {/* Output Previews */}
             <div className="xl:col-span-3 space-y-8">
               <div className="flex items-center justify-between">
                  <h3 className="font-bold text-slate-400 uppercase tracking-widest text-[10px]">Submission Snapshots</h3>
-                 <span className="text-[10px] text-slate-400 font-medium italic">Naming: {screenshotPattern}.png</span>
+                 <span className="text-[10px] text-slate-400 font-medium italic">Naming: {screenshotPattern}.{imageExtension}</span>
               </div>
              
               <div className="space-y-20">
@@ -525,120 +1543,287 @@ const App: React.FC = () => {
                         <span className="text-xs font-bold text-slate-400">/</span>
                         <span className="text-sm font-bold text-slate-800">/{formatName(folderPattern, file, idx)}</span>
                       </div>
-                      {file.status === FileStatus.COMPLETED && (
-                        <div className="flex items-center gap-1.5 text-green-600 font-bold text-[10px] bg-green-50 px-3 py-1 rounded-full border border-green-100 shadow-sm uppercase tracking-wider">
-                          <div className="w-1.5 h-1.5 bg-green-500 rounded-full" />
-                          Ready
-                        </div>
-                      )}
-                      {file.status === FileStatus.ERROR && (
-                        <div className="flex items-center gap-1.5 text-red-600 font-bold text-[10px] bg-red-50 px-3 py-1 rounded-full border border-red-100 shadow-sm uppercase tracking-wider">
-                          Capture Error
-                        </div>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {file.status === FileStatus.COMPLETED && (
+                          <div className="flex items-center gap-1.5 text-green-600 font-bold text-[10px] bg-green-50 px-3 py-1 rounded-full border border-green-100 shadow-sm uppercase tracking-wider">
+                            <div className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+                            Ready
+                          </div>
+                        )}
+                        {file.status === FileStatus.MISMATCH && (
+                          <div className="flex items-center gap-1.5 text-orange-600 font-bold text-[10px] bg-orange-50 px-3 py-1 rounded-full border border-orange-100 shadow-sm uppercase tracking-wider">
+                            <div className="w-1.5 h-1.5 bg-orange-500 rounded-full" />
+                            Output Mismatch
+                          </div>
+                        )}
+                        {file.status === FileStatus.ERROR && (
+                          <div className="flex items-center gap-1.5 text-red-600 font-bold text-[10px] bg-red-50 px-3 py-1 rounded-full border border-red-100 shadow-sm uppercase tracking-wider">
+                            Capture Error
+                          </div>
+                        )}
+                        {fileVerification(file) && <VerificationBadge status={fileVerification(file)!} />}
+                        {hasManualEdits(file) && (
+                          <span title="Source or output edited in AutoLab" className="text-[10px] font-bold uppercase tracking-wider text-violet-600 bg-violet-50 px-3 py-1 rounded-full border border-violet-100 shadow-sm">Edited</span>
+                        )}
+                        {findLanguage(file.language)?.kind !== 'notebook' && editingId !== file.id && (
+                          <button
+                            onClick={() => startEditing(file)}
+                            disabled={file.status === FileStatus.RUNNING}
+                            title="Edit source and output"
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 transition-colors"
+                          >
+                            <PencilSquareIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        {file.status !== FileStatus.PENDING && file.status !== FileStatus.RUNNING && !queueProgress.queuedIds.includes(file.id) && (
+                          <>
+                            <button
+                              onClick={() => retryFile(file.id)}
+                              title="Re-run: generate the output again, then capture"
+                              className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                            >
+                              <ArrowPathIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => recaptureFile(file.id)}
+                              title="Re-capture only: take the screenshots again from the current output"
+                              className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                            >
+                              <CameraIcon className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
                     </div>
                     
-                    <div 
-                      ref={el => { terminalRefs.current[file.id] = el; }}
-                      className="rounded-2xl overflow-hidden shadow-2xl border border-slate-200 bg-white"
-                    >
-                      {file.language === 'html' ? (
-                        /* BROWSER VIEW FOR HTML */
-                        <div className="bg-white flex flex-col">
-                          {/* Browser Toolbar */}
-                          <div className="bg-slate-50 px-4 py-2 border-b border-slate-200 flex items-center gap-3">
-                            <div className="flex gap-1.5">
-                              <div className="w-2.5 h-2.5 rounded-full bg-red-400" />
-                              <div className="w-2.5 h-2.5 rounded-full bg-amber-400" />
-                              <div className="w-2.5 h-2.5 rounded-full bg-emerald-400" />
-                            </div>
-                            <div className="flex-1 bg-white border border-slate-200 rounded-lg px-3 py-1 flex items-center justify-between">
-                              <div className="flex items-center gap-2">
-                                <GlobeAltIcon className="w-3.5 h-3.5 text-indigo-500" />
-                                <span className="text-[10px] text-slate-400 font-mono truncate tracking-tight">https://autolab.local/{file.name}</span>
-                              </div>
-                            </div>
+                    {editingId === file.id && (
+                      <div className="mb-6 p-4 bg-white border border-indigo-100 rounded-2xl shadow-sm space-y-4">
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-xs font-bold text-slate-600">Source: <code className="font-mono">{file.name}</code></span>
+                            {file.originalContent !== undefined && (
+                              <button onClick={() => setSourceDraft(file.originalContent!)} className="text-[10px] font-bold text-slate-400 hover:text-indigo-600">
+                                Restore uploaded source
+                              </button>
+                            )}
                           </div>
-                          
-                          {/* Viewport Render */}
-                          <div className="min-h-[350px] p-8 bg-white overflow-auto border-b border-slate-100">
-                            {file.status === FileStatus.RUNNING && !file.output ? (
-                              <div className="h-full w-full flex flex-col items-center justify-center gap-4 py-24">
-                                <div className="w-10 h-10 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
-                                <span className="text-slate-400 text-xs font-bold uppercase tracking-widest">Rendering DOM...</span>
-                              </div>
-                            ) : (
-                              <div 
-                                className="w-full h-full animate-in fade-in duration-700"
-                                dangerouslySetInnerHTML={{ __html: file.content }}
-                              />
+                          <CodeEditor value={sourceDraft} language={file.language} theme={codeSnapshots.theme} onChange={setSourceDraft} />
+                        </div>
+                        {getRunSlots(file).map(slot => (
+                          <div key={slot.key}>
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-xs font-bold text-slate-600">Output{slot.label ? ` (${slot.label})` : ''}</span>
+                              {slot.originalOutput !== undefined && (
+                                <button
+                                  onClick={() => setOutputDrafts({ ...outputDrafts, [slot.key]: slot.originalOutput! })}
+                                  className="text-[10px] font-bold text-slate-400 hover:text-indigo-600"
+                                >
+                                  Restore generated output
+                                </button>
+                              )}
+                            </div>
+                            <textarea
+                              value={outputDrafts[slot.key] ?? ''}
+                              onChange={(e) => setOutputDrafts({ ...outputDrafts, [slot.key]: e.target.value })}
+                              rows={Math.min(16, Math.max(4, (outputDrafts[slot.key] ?? '').split('\n').length))}
+                              spellCheck={false}
+                              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all"
+                            />
+                            {slot.transcript && (
+                              <p className="mt-1 text-[10px] text-slate-400 italic">Editing this output removes the highlighted input lines from the snapshot.</p>
                             )}
                           </div>
+                        ))}
+                        <div className="flex items-center justify-end gap-2">
+                          <span className="mr-auto text-[10px] text-slate-400 italic">Edits are listed in the report. Re-run or re-capture afterwards to update the screenshots.</span>
+                          <button onClick={() => setEditingId(null)} className="px-4 py-2 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => saveEdits(file)}
+                            disabled={file.status === FileStatus.RUNNING}
+                            className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {findLanguage(file.language)?.kind === 'terminal' && (
+                      <InputSetsEditor
+                        inputs={file.inputs ?? []}
+                        disabled={isProcessing || file.status === FileStatus.RUNNING}
+                        onChange={(inputs) => updateInputs(file.id, inputs)}
+                      />
+                    )}
 
-                          {/* Console Section */}
-                          <div className="bg-[#f3f4f6] border-t-2 border-slate-200 font-mono text-xs">
-                             <div className="bg-white px-4 py-2 border-b border-slate-200 flex items-center justify-between text-[10px] font-bold text-slate-500 uppercase tracking-widest">
-                                <div className="flex items-center gap-2">
-                                   <CommandLineIcon className="w-4 h-4 text-indigo-500" />
-                                   Console
+                    <div className="space-y-8">
+                      {getRunSlots(file).map(slot => (
+                        <div key={slot.key}>
+                          <div 
+                            ref={el => { terminalRefs.current[slot.key] = el; }}
+                            className="rounded-2xl overflow-hidden shadow-2xl border border-slate-200 bg-white"
+                          >
+                            {file.language === 'html' ? (
+                              /* BROWSER VIEW FOR HTML */
+                              <div className="bg-white flex flex-col">
+                                {/* Browser Toolbar */}
+                                <div className="px-4 py-2 border-b flex items-center gap-3" style={{ background: browserChrome.toolbar, borderColor: browserChrome.border }}>
+                                  {terminalPreset.controls === 'mac' && (
+                                    <div className="flex gap-1.5">
+                                      <div className="w-2.5 h-2.5 rounded-full bg-red-400" />
+                                      <div className="w-2.5 h-2.5 rounded-full bg-amber-400" />
+                                      <div className="w-2.5 h-2.5 rounded-full bg-emerald-400" />
+                                    </div>
+                                  )}
+                                  <div className="flex-1 border rounded-lg px-3 py-1 flex items-center justify-between" style={{ background: browserChrome.addressBar, borderColor: browserChrome.border }}>
+                                    <div className="flex items-center gap-2">
+                                      <GlobeAltIcon className="w-3.5 h-3.5 text-indigo-500" />
+                                      <span className="text-[10px] font-mono truncate tracking-tight" style={{ color: browserChrome.muted }}>https://{snapshotStyle.hostname}.local/{file.name}</span>
+                                    </div>
+                                  </div>
+                                  {terminalPreset.controls !== 'mac' && <WindowControls controls={terminalPreset.controls} color={browserChrome.muted} />}
                                 </div>
-                                <div className="flex gap-4">
-                                   <span className="text-indigo-600">All Levels</span>
-                                   <span>Filter</span>
+                          
+                                {/* Viewport Render */}
+                                <div className="relative bg-white border-b border-slate-100">
+                                  <HtmlSandbox
+                                    file={file}
+                                    viewport={{ width: snapshotStyle.viewportWidth, height: snapshotStyle.viewportHeight }}
+                                    onReady={handle => { sandboxRefs.current[slot.key] = handle; }}
+                                  />
+                                  {file.status === FileStatus.RUNNING && !slot.output && (
+                                    <div className="absolute inset-0 bg-white/70 flex flex-col items-center justify-center gap-4">
+                                      <div className="w-10 h-10 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+                                      <span className="text-slate-400 text-xs font-bold uppercase tracking-widest">Loading page...</span>
+                                    </div>
+                                  )}
                                 </div>
-                             </div>
-                             <div className="p-4 bg-white/50 space-y-1 overflow-auto max-h-[150px]">
-                                {file.output ? (
-                                   file.output.split('\n').map((line, lIdx) => (
-                                      <div key={lIdx} className="flex gap-3 py-1 border-b border-slate-100 last:border-0 items-start">
-                                         <span className="text-slate-400 flex-shrink-0 w-8">{lIdx + 1}</span>
-                                         <span className="text-slate-800 break-all">{line || " "}</span>
+
+                                {/* Console Section */}
+                                <div
+                                   className="border-t-2"
+                                   style={{ background: browserChrome.console, borderColor: browserChrome.border, fontFamily: terminalPreset.fontFamily, fontSize: snapshotStyle.fontSize - 2 }}
+                                >
+                                   <div className="px-4 py-2 border-b flex items-center justify-between text-[10px] font-bold uppercase tracking-widest" style={{ background: browserChrome.toolbar, borderColor: browserChrome.border, color: browserChrome.muted }}>
+                                      <div className="flex items-center gap-2">
+                                         <CommandLineIcon className="w-4 h-4 text-indigo-500" />
+                                         Console
                                       </div>
-                                   ))
-                                ) : file.status === FileStatus.RUNNING ? (
-                                   <div className="animate-pulse text-indigo-500 italic">Capturing logs...</div>
-                                ) : (
-                                   <span className="text-slate-400 italic">No console logs detected...</span>
-                                )}
-                             </div>
-                          </div>
-                        </div>
-                      ) : (
-                        /* TERMINAL VIEW FOR OTHER CODE */
-                        <div className="bg-[#0c0c0c]">
-                          <div className="bg-[#1a1a1a] px-5 py-3 border-b border-[#2d2d2d] flex items-center justify-between">
-                            <div className="flex gap-2">
-                              <div className="w-3 h-3 rounded-full bg-[#ff5f56]" />
-                              <div className="w-3 h-3 rounded-full bg-[#ffbd2e]" />
-                              <div className="w-3 h-3 rounded-full bg-[#27c93f]" />
-                            </div>
-                            <div className="text-[#666666] text-[11px] font-mono font-black uppercase tracking-[0.2em]">
-                              Terminal.exe - {file.name}
-                            </div>
-                          </div>
-                          <div className="p-10 font-mono text-sm leading-relaxed text-[#d4d4d4] min-h-[250px]">
-                            <div className="mb-4 flex items-start gap-3">
-                              <span className="text-[#27c93f] font-bold">~/Assignments&gt;</span>
-                              <span className="text-white opacity-90">{file.language === 'py' ? 'python' : 'run'} {file.name}</span>
-                            </div>
-                            {file.status === FileStatus.RUNNING && !file.output && (
-                              <div className="flex items-center gap-3 text-indigo-400 font-bold py-6 animate-pulse">
-                                <div className="w-3 h-3 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
-                                Simulating execution output...
+                                      <div className="flex gap-4">
+                                         <span className="text-indigo-600">All Levels</span>
+                                         <span>Filter</span>
+                                      </div>
+                                   </div>
+                                   <div className="p-4 space-y-1 overflow-auto max-h-[150px]">
+                                      {slot.output ? (
+                                         slot.output.split('\n').map((line, lIdx) => (
+                                            <div key={lIdx} className="flex gap-3 py-1 border-b last:border-0 items-start" style={{ borderColor: browserChrome.border }}>
+                                               <span className="flex-shrink-0 w-8" style={{ color: browserChrome.muted }}>{lIdx + 1}</span>
+                                               <span className="break-all" style={{ color: browserChrome.text }}>{line || " "}</span>
+                                            </div>
+                                         ))
+                                      ) : file.status === FileStatus.RUNNING ? (
+                                         <div className="animate-pulse text-indigo-500 italic">Capturing logs...</div>
+                                      ) : (
+                                         <span className="italic" style={{ color: browserChrome.muted }}>No console logs detected...</span>
+                                      )}
+                                   </div>
+                                </div>
+                              </div>
+                            ) : findLanguage(file.language)?.kind === 'notebook' ? (
+                              <NotebookView fileName={file.name} content={file.content} />
+                            ) : (
+                              /* TERMINAL VIEW FOR OTHER CODE */
+                              <div style={{ background: terminalPreset.background }}>
+                                <div
+                                  className="px-5 py-3 border-b flex items-center justify-between"
+                                  style={{ background: terminalPreset.header, borderColor: terminalPreset.border }}
+                                >
+                                  {terminalPreset.controls === 'mac' && <WindowControls controls="mac" color={terminalPreset.titleColor} />}
+                                  <div className="text-[11px] font-mono font-bold tracking-wider" style={{ color: terminalPreset.titleColor }}>
+                                    {formatChrome(terminalPreset.title, file)}
+                                  </div>
+                                  {terminalPreset.controls !== 'mac' && <WindowControls controls={terminalPreset.controls} color={terminalPreset.titleColor} />}
+                                </div>
+                                <div
+                                  className="p-10 leading-relaxed min-h-[250px]"
+                                  style={{ fontFamily: terminalPreset.fontFamily, fontSize: snapshotStyle.fontSize, color: terminalPreset.text }}
+                                >
+                                  <div className="mb-4 flex items-start gap-3">
+                                    <span className="font-bold" style={{ color: terminalPreset.promptColor }}>
+                                      {formatChrome(snapshotStyle.prompt || terminalPreset.prompt, file)}
+                                    </span>
+                                    <span>{runCommandFor(file)}{slot.label && ` < ${slot.label}`}</span>
+                                  </div>
+                                  {file.status === FileStatus.RUNNING && !slot.output && (
+                                    <div className="flex items-center gap-3 text-indigo-400 font-bold py-6 animate-pulse">
+                                      <div className="w-3 h-3 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+                                      {executionMode === 'local' && canRunLocally(file) ? 'Running program...' : 'Simulating execution output...'}
+                                    </div>
+                                  )}
+                                  {slot.transcript ? (
+                                    <pre className="whitespace-pre-wrap mt-2" style={{ fontFamily: 'inherit' }}>
+                                      {slot.transcript.map((chunk, cIdx) => chunk.kind === 'input' ? (
+                                        <span key={cIdx} className="font-bold underline underline-offset-4" style={{ color: terminalPreset.promptColor }}>{chunk.text}</span>
+                                      ) : (
+                                        <span key={cIdx}>{chunk.text}</span>
+                                      ))}
+                                    </pre>
+                                  ) : slot.output && (
+                                    <pre className="whitespace-pre-wrap mt-2" style={{ fontFamily: 'inherit' }}>{slot.output}</pre>
+                                  )}
+                                  {file.status === FileStatus.COMPLETED && (
+                                     <div className="mt-8 font-bold flex items-center gap-2" style={{ color: terminalPreset.promptColor }}>
+                                        {formatChrome(snapshotStyle.prompt || terminalPreset.prompt, file)}
+                                        <span className="w-3 h-6 inline-block align-middle animate-blink" style={{ background: terminalPreset.text, opacity: 0.3 }} />
+                                     </div>
+                                  )}
+                                </div>
                               </div>
-                            )}
-                            {file.output && (
-                              <pre className="whitespace-pre-wrap mt-2 font-mono text-[#cccccc] bg-white/5 p-6 rounded-xl border border-white/10 shadow-inner">{file.output}</pre>
-                            )}
-                            {file.status === FileStatus.COMPLETED && (
-                               <div className="mt-8 text-[#27c93f] font-bold flex items-center gap-2">
-                                  ~/Assignments&gt; 
-                                  <span className="w-3 h-6 bg-white/30 inline-block align-middle animate-blink" />
-                               </div>
                             )}
                           </div>
+                          {slot.grade && (
+                            <div className="mt-3 px-2 flex items-center gap-2">
+                              {slot.grade.passed ? (
+                                <span className="text-[10px] font-bold uppercase tracking-wider text-green-600 bg-green-50 border border-green-100 px-3 py-1 rounded-full">Pass</span>
+                              ) : (
+                                <span className="text-[10px] font-bold uppercase tracking-wider text-orange-600 bg-orange-50 border border-orange-100 px-3 py-1 rounded-full">Mismatch</span>
+                              )}
+                              <span className="text-[10px] text-slate-400 font-medium">
+                                Compared with expected output{slot.label ? ` for ${slot.label}` : ''}
+                              </span>
+                            </div>
+                          )}
+                          {slot.grade && !slot.grade.passed && <OutputDiff grade={slot.grade} />}
+                          {slot.simulated && slot.verification && (
+                            <div className="mt-3 px-2 flex items-center gap-2">
+                              <VerificationBadge status={slot.verification.status} />
+                              <span className="text-[10px] text-slate-400 font-medium">
+                                {slot.verification.status === 'unverifiable'
+                                  ? slot.verification.reason
+                                  : `Simulated output compared with a real run${slot.label ? ` for ${slot.label}` : ''}${
+                                    slot.verification.exitCode !== undefined ? `, which exited with code ${slot.verification.exitCode}` : ''}`}
+                              </span>
+                            </div>
+                          )}
+                          {slot.verification?.diff && (
+                            <OutputDiff grade={slot.verification} title="Simulation Diff" labels={{ missing: 'real run', extra: 'simulated' }} />
+                          )}
                         </div>
-                      )}
+                      ))}
+                      {codeSnapshots.enabled && paginateCode(codeView(file).code, codeView(file).language, codeSnapshots.linesPerImage).map((page, pageIndex, pages) => (
+                        <div key={pageIndex} ref={el => { codeRefs.current[codeImageKey(file.id, pageIndex)] = el; }}>
+                          <CodeSnapshot
+                            fileName={file.name}
+                            page={page}
+                            pageIndex={pageIndex}
+                            pageCount={pages.length}
+                            theme={codeSnapshots.theme}
+                          />
+                        </div>
+                      ))}
                     </div>
 
                     <div className="mt-5 grid grid-cols-1 md:grid-cols-2 gap-4 px-2 opacity-60 group-hover:opacity-100 transition-opacity">
@@ -650,7 +1835,9 @@ const App: React.FC = () => {
                       <div className="flex items-center gap-3 p-3 bg-white rounded-xl border border-slate-100 shadow-sm">
                         <DocumentIcon className="w-4 h-4 text-indigo-400" />
                         <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Asset:</span>
-                        <span className="text-[11px] font-black text-slate-600 truncate">{formatName(screenshotPattern, file, idx)}.png</span>
+                        <span className="text-[11px] font-black text-slate-600 truncate">
+                          {assetNames(file, idx).join(', ')}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -672,9 +1859,22 @@ const App: React.FC = () => {
             <div className="text-center">
               <div className="text-[9px] uppercase font-black text-slate-400 tracking-[0.2em] mb-2">Done</div>
               <div className="text-3xl font-black text-emerald-600 tabular-nums">
-                {files.filter(f => !!f.imageBlob).length}
+                {files.filter(hasSnapshot).length}
               </div>
             </div>
+            {isProcessing && (
+              <div className="text-center">
+                <div className="text-[9px] uppercase font-black text-slate-400 tracking-[0.2em] mb-2">
+                  {queueProgress.state === 'paused' ? 'Paused' : queueProgress.state === 'cancelling' ? 'Stopping' : 'Batch'}
+                </div>
+                <div className="text-3xl font-black text-indigo-600 tabular-nums">
+                  {queueProgress.done}/{queueProgress.total}
+                </div>
+                <div className="text-[10px] font-bold text-slate-400 tabular-nums mt-1">
+                  {queueProgress.etaMs !== null ? `~${formatEta(queueProgress.etaMs)} left` : 'Estimating...'}
+                </div>
+              </div>
+            )}
           </div>
           
           <div className="flex gap-5">
@@ -699,18 +1899,67 @@ const App: React.FC = () => {
                 </>
               )}
             </button>
+            {isProcessing && (
+              <>
+                <button
+                  onClick={() => queueProgress.state === 'paused' ? queue.resume() : queue.pause()}
+                  disabled={queueProgress.state === 'cancelling'}
+                  title={queueProgress.state === 'paused' ? 'Resume the batch' : 'Pause after the running programs'}
+                  className="px-5 py-5 rounded-2xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40 transition-all"
+                >
+                  {queueProgress.state === 'paused' ? <PlayIcon className="w-5 h-5" /> : <PauseIcon className="w-5 h-5" />}
+                </button>
+                <button
+                  onClick={() => queue.cancel()}
+                  disabled={queueProgress.state === 'cancelling'}
+                  title="Cancel the programs that haven't started"
+                  className="px-5 py-5 rounded-2xl border border-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-500 disabled:opacity-40 transition-all"
+                >
+                  <StopIcon className="w-5 h-5" />
+                </button>
+              </>
+            )}
             <button 
-              onClick={downloadAll}
-              disabled={!files.some(f => !!f.imageBlob) || isProcessing}
+              onClick={() => exportAs('zip')}
+              disabled={!files.some(hasSnapshot) || isProcessing}
               className={`px-12 py-5 rounded-2xl font-black text-xs uppercase tracking-[0.15em] flex items-center gap-4 transition-all ${
-                !files.some(f => !!f.imageBlob) || isProcessing
+                !files.some(hasSnapshot) || isProcessing
                   ? 'bg-slate-100 text-slate-400 cursor-not-allowed' 
                   : 'bg-slate-900 text-white hover:bg-black shadow-2xl shadow-slate-200 active:scale-95'
               }`}
             >
               <ArrowDownTrayIcon className="w-5 h-5" />
-              Package Zip
+              {EXPORT_FORMATS.zip.label}
             </button>
+            {(['pdf', 'docx'] as const).map(format => (
+              <button 
+                key={format}
+                onClick={() => exportAs(format)}
+                disabled={!files.some(hasSnapshot) || isProcessing}
+                className={`px-8 py-5 rounded-2xl font-black text-xs uppercase tracking-[0.15em] flex items-center gap-4 transition-all ${
+                  !files.some(hasSnapshot) || isProcessing
+                    ? 'bg-slate-100 text-slate-400 cursor-not-allowed' 
+                    : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 active:scale-95'
+                }`}
+              >
+                <DocumentTextIcon className="w-5 h-5" />
+                {EXPORT_FORMATS[format].label}
+              </button>
+            ))}
+            {isVsCodeWebview() && (
+              <button 
+                onClick={saveAsFolder}
+                disabled={!files.some(hasSnapshot) || isProcessing}
+                className={`px-8 py-5 rounded-2xl font-black text-xs uppercase tracking-[0.15em] flex items-center gap-4 transition-all ${
+                  !files.some(hasSnapshot) || isProcessing
+                    ? 'bg-slate-100 text-slate-400 cursor-not-allowed' 
+                    : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 active:scale-95'
+                }`}
+              >
+                <FolderIcon className="w-5 h-5" />
+                Save Folder
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,325 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Resvg } from '@resvg/resvg-js';
+import { AiSettings, ArchiveLayout, ExecutionMode, FileStatus, ProgramFile, PromptTemplates, SnapshotStyle, TerminalPreset } from '../types';
+import { DEFAULT_SNAPSHOT_STYLE, TERMINAL_PRESETS } from '../constants';
+import { createProgramFiles } from '../services/uploadService';
+import { createFileStore, filePath, RunPatch } from '../services/fileStore';
+import { getRunSlots, RunSlot, UploadedText } from '../services/inputSets';
+import { createJobQueue, DEFAULT_BATCH_SETTINGS } from '../services/jobQueue';
+import { createRateLimiter, DEFAULT_AI_SETTINGS, DEFAULT_MODELS, RateLimiter } from '../services/aiProviders';
+import { generateOutput } from '../services/aiService';
+import { formatRunOutput, formatRunTranscript, LOCAL_LANGUAGES } from '../services/executionService';
+import { findLanguage } from '../services/languages';
+import { notebookOutput, parseNotebook } from '../services/notebook';
+import { DEFAULT_GRADING_OPTIONS, getVerdict } from '../services/grading';
+import { formatName } from '../services/naming';
+import { DEFAULT_PACKAGING_OPTIONS, generateSubmissionZip, programPaths, SubmissionLayoutError } from '../services/zipService';
+import { renderTerminalSvg } from '../services/terminalSnapshot';
+import { runProgram } from '../vscode-extension/src/runner';
+
+const USAGE = `Usage: autolab run <dir> [options]
+
+Runs every program in <dir>, renders its output snapshots and packages the submission ZIP.
+
+Options:
+  -o, --out <file>             Submission archive to write (default: submission.zip)
+      --mode <local|ai>        Run programs with the installed toolchains, or simulate them (default: local)
+      --pattern <pattern>      Screenshot name pattern (default: ${DEFAULT_PACKAGING_OPTIONS.screenshotPattern})
+      --folder-pattern <p>     Folder name pattern (default: ${DEFAULT_PACKAGING_OPTIONS.folderPattern})
+      --layout <layout>        per-program, flat, split or combined (default: ${DEFAULT_PACKAGING_OPTIONS.layout})
+      --root <pattern>         Folder wrapping the whole archive, e.g. "[roll]_[lab]"
+      --start-index <n>        Number of the first program (default: ${DEFAULT_PACKAGING_OPTIONS.startIndex})
+      --student, --roll, --course, --lab <text>
+                               Student and course details for the naming patterns
+      --preset <preset>        Terminal look: ${Object.keys(TERMINAL_PRESETS).join(', ')} (default: ${DEFAULT_SNAPSHOT_STYLE.preset})
+      --font <file>            Font file for the snapshots, when the system has no monospace font (repeatable)
+      --timeout <ms>           Limit for each local compile/run step (default: 10000)
+      --provider <provider>    gemini or openai-compatible (default: ${DEFAULT_AI_SETTINGS.provider})
+      --model <model>          AI model (default: per provider)
+      --base-url <url>         OpenAI-compatible endpoint (default: ${DEFAULT_AI_SETTINGS.baseUrl})
+      --rpm <n>                AI requests per minute, 0 for no limit (default: ${DEFAULT_BATCH_SETTINGS.requestsPerMinute})
+      --concurrency <n>        Programs processed at the same time (default: ${DEFAULT_BATCH_SETTINGS.concurrency})
+      --summary <file>         Write the JSON summary there instead of to stdout
+  -h, --help                   Show this help
+
+The AI key is read from AUTOLAB_API_KEY (or GEMINI_API_KEY). Prompt templates are read from the
+"prompts" object of <dir>/.autolab.json, if there is one.
+
+Exit codes: 0 when every run succeeded and matched its expected output, 1 when any did not (or no
+programs were found), 2 for usage errors and layouts that would have to rename a program's files.`;
+
+// Same defaults as the VS Code extension's `autolab.files.*` settings.
+const IGNORED_FOLDERS = new Set(['node_modules', '__pycache__']);
+const MAX_FILE_BYTES = 512 * 1024;
+
+class UsageError extends Error {}
+
+/** Text files under `root`, with `dir` relative to the parent of `root` like a browser folder upload. */
+async function readFolder(root: string): Promise<UploadedText[]> {
+  const files: UploadedText[] = [];
+  const walk = async (folder: string, dir: string) => {
+    const entries = await fs.readdir(folder, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const full = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_FOLDERS.has(entry.name)) await walk(full, `${dir}/${entry.name}`);
+      } else if (entry.isFile() && (await fs.stat(full)).size <= MAX_FILE_BYTES) {
+        files.push({ name: entry.name, dir, content: await fs.readFile(full, 'utf8') });
+      }
+    }
+  };
+  await walk(root, path.basename(path.resolve(root)));
+  return files;
+}
+
+async function readPromptTemplates(root: string): Promise<PromptTemplates> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(root, '.autolab.json'), 'utf8');
+  } catch {
+    return {};
+  }
+  try {
+    return JSON.parse(text).prompts ?? {};
+  } catch {
+    throw new UsageError(`${path.join(root, '.autolab.json')} is not valid JSON.`);
+  }
+}
+
+const oneOf = <T extends string>(name: string, value: string, allowed: readonly T[]): T => {
+  if (!(allowed as readonly string[]).includes(value)) throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const integer = (name: string, value: string, min: number) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) throw new UsageError(`--${name} must be a whole number of at least ${min}`);
+  return number;
+};
+
+interface RunOutcome {
+  patch: RunPatch;
+  // How the output was produced, for the summary.
+  source: 'local' | 'ai' | 'notebook';
+  // Why the run counts as failed, if it does.
+  failure?: string;
+}
+
+/** One run of a program, the way the app does it: a real run when possible, otherwise the AI simulator. */
+async function executeRun(
+  file: ProgramFile,
+  stdin: string | undefined,
+  mode: ExecutionMode,
+  settings: { ai: AiSettings; templates: PromptTemplates; limiter: RateLimiter; timeoutMs: number }
+): Promise<RunOutcome> {
+  if (findLanguage(file.language)?.kind === 'notebook') {
+    return { patch: { output: notebookOutput(parseNotebook(file.content)) }, source: 'notebook' };
+  }
+  if (mode === 'local' && LOCAL_LANGUAGES.includes(file.language)) {
+    const runResult = await runProgram(
+      { fileName: file.name, content: file.content, language: file.language, stdin, files: file.sources },
+      { timeoutMs: settings.timeoutMs }
+    );
+    const failure = runResult.timedOut ? 'timed out'
+      : runResult.exitCode === null ? (runResult.stderr.trim().split('\n')[0] || 'could not be started')
+      : runResult.exitCode !== 0 ? `exited with code ${runResult.exitCode}` : undefined;
+    return {
+      patch: { output: formatRunOutput(runResult), transcript: formatRunTranscript(runResult), runResult },
+      source: 'local',
+      failure
+    };
+  }
+  const simulated = await generateOutput(file, settings.ai, stdin, settings.limiter, settings.templates);
+  return {
+    patch: { ...simulated, simulated: true },
+    source: 'ai',
+    failure: simulated.output.startsWith('Execution Error:') ? simulated.output.split('\n')[0] : undefined
+  };
+}
+
+const renderSnapshot = (file: ProgramFile, slot: RunSlot, style: SnapshotStyle, fontFiles: string[]) => {
+  const svg = renderTerminalSvg(file, slot, style);
+  const png = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: style.imageScale },
+    font: { loadSystemFonts: true, fontFiles, defaultFontFamily: 'monospace' }
+  }).render().asPng();
+  return new Blob([new Uint8Array(png)], { type: 'image/png' });
+};
+
+async function run(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'submission.zip' },
+      mode: { type: 'string', default: 'local' },
+      pattern: { type: 'string', default: DEFAULT_PACKAGING_OPTIONS.screenshotPattern },
+      'folder-pattern': { type: 'string', default: DEFAULT_PACKAGING_OPTIONS.folderPattern },
+      layout: { type: 'string', default: DEFAULT_PACKAGING_OPTIONS.layout },
+      root: { type: 'string', default: DEFAULT_PACKAGING_OPTIONS.rootPattern },
+      'start-index': { type: 'string', default: String(DEFAULT_PACKAGING_OPTIONS.startIndex) },
+      student: { type: 'string', default: '' },
+      roll: { type: 'string', default: '' },
+      course: { type: 'string', default: '' },
+      lab: { type: 'string', default: '' },
+      preset: { type: 'string', default: DEFAULT_SNAPSHOT_STYLE.preset },
+      font: { type: 'string', multiple: true, default: [] },
+      timeout: { type: 'string', default: '10000' },
+      provider: { type: 'string', default: DEFAULT_AI_SETTINGS.provider },
+      model: { type: 'string' },
+      'base-url': { type: 'string', default: DEFAULT_AI_SETTINGS.baseUrl },
+      rpm: { type: 'string', default: String(DEFAULT_BATCH_SETTINGS.requestsPerMinute) },
+      concurrency: { type: 'string', default: String(DEFAULT_BATCH_SETTINGS.concurrency) },
+      summary: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) throw new UsageError('Give exactly one folder to run.');
+
+  const dir = positionals[0];
+  if (!(await fs.stat(dir).catch(() => null))?.isDirectory()) throw new UsageError(`${dir} is not a folder.`);
+  const mode = oneOf<ExecutionMode>('mode', values.mode, ['local', 'ai']);
+  const provider = oneOf<AiSettings['provider']>('provider', values.provider, ['gemini', 'openai-compatible']);
+  const options = {
+    ...DEFAULT_PACKAGING_OPTIONS,
+    screenshotPattern: values.pattern,
+    folderPattern: values['folder-pattern'],
+    layout: oneOf<ArchiveLayout>('layout', values.layout, ['per-program', 'flat', 'split', 'combined']),
+    rootPattern: values.root,
+    startIndex: integer('start-index', values['start-index'], 0),
+    student: { studentName: values.student, rollNumber: values.roll, course: values.course, labNumber: values.lab },
+    gradingOptions: DEFAULT_GRADING_OPTIONS
+  };
+  const style: SnapshotStyle = {
+    ...DEFAULT_SNAPSHOT_STYLE,
+    preset: oneOf<TerminalPreset>('preset', values.preset, Object.keys(TERMINAL_PRESETS) as TerminalPreset[])
+  };
+  const settings = {
+    ai: {
+      ...DEFAULT_AI_SETTINGS,
+      provider,
+      model: values.model ?? DEFAULT_MODELS[provider],
+      baseUrl: values['base-url'],
+      apiKey: process.env.AUTOLAB_API_KEY ?? process.env.GEMINI_API_KEY ?? ''
+    },
+    templates: await readPromptTemplates(dir),
+    limiter: createRateLimiter(integer('rpm', values.rpm, 0)),
+    timeoutMs: integer('timeout', values.timeout, 1000)
+  };
+  if (mode === 'ai' && provider === 'gemini' && !settings.ai.apiKey) {
+    throw new UsageError('--mode ai needs a Gemini API key in AUTOLAB_API_KEY or GEMINI_API_KEY.');
+  }
+
+  const { programs, skipped } = createProgramFiles(await readFolder(dir));
+  const store = createFileStore();
+  store.dispatch({ type: 'add', files: programs });
+  const runs = new Map<string, { input: string | null; source: RunOutcome['source']; failure?: string }[]>();
+
+  const processFile = async (fileId: string) => {
+    const file = store.getState().find(f => f.id === fileId)!;
+    const outcomes: { input: string | null; source: RunOutcome['source']; failure?: string }[] = [];
+    for (const slot of getRunSlots(file)) {
+      const outcome = await executeRun(file, slot.stdin, mode, settings);
+      store.dispatch({ type: 'setRunResult', id: fileId, inputId: slot.inputId, patch: outcome.patch });
+      outcomes.push({ input: slot.label ?? null, source: outcome.source, failure: outcome.failure });
+    }
+    store.dispatch({ type: 'complete', id: fileId, gradingOptions: options.gradingOptions });
+
+    const completed = store.getState().find(f => f.id === fileId)!;
+    getRunSlots(completed).forEach((slot, i) => {
+      try {
+        const imageBlob = renderSnapshot(completed, slot, style, values.font);
+        store.dispatch({ type: 'setRunResult', id: fileId, inputId: slot.inputId, patch: { imageBlob } });
+      } catch (err) {
+        outcomes[i].failure ??= `snapshot failed: ${err instanceof Error ? err.message : err}`;
+        store.dispatch({ type: 'setStatus', id: fileId, status: FileStatus.ERROR });
+      }
+    });
+    runs.set(fileId, outcomes);
+    const failed = outcomes.filter(outcome => outcome.failure).length;
+    console.error(`[${runs.size}/${programs.length}] ${filePath(completed)}: ${failed > 0 ? `${failed} failed` : completed.status}`);
+  };
+
+  await new Promise<void>(resolve => {
+    const queue = createJobQueue(processFile, progress => {
+      if (progress.state === 'idle') resolve();
+    }, integer('concurrency', values.concurrency, 1));
+    queue.enqueue(programs.map(file => file.id));
+  });
+
+  const files = store.getState();
+  await fs.writeFile(values.out, new Uint8Array(await (await generateSubmissionZip(files, options)).arrayBuffer()));
+
+  const summaryPrograms = files.map((file, index) => {
+    const outcomes = runs.get(file.id) ?? [];
+    const paths = programPaths(file, index, options);
+    return {
+      file: filePath(file),
+      language: file.language,
+      folder: formatName(options.folderPattern, file, index, options),
+      status: file.status,
+      runs: getRunSlots(file).map((slot, i) => ({
+        input: slot.label ?? null,
+        source: outcomes[i]?.source,
+        verdict: getVerdict(slot),
+        screenshot: slot.imageBlob ? paths.screenshots[i] : null,
+        failure: outcomes[i]?.failure ?? (getVerdict(slot) === 'mismatch' ? 'output differs from the expected output' : null)
+      }))
+    };
+  });
+  const failures = summaryPrograms.flatMap(program => program.runs.filter(r => r.failure).map(r => ({ file: program.file, input: r.input, reason: r.failure })));
+  const summary = {
+    generatedAt: new Date().toISOString(),
+    folder: path.resolve(dir),
+    out: path.resolve(values.out),
+    mode,
+    programs: summaryPrograms,
+    skipped,
+    totals: {
+      programs: files.length,
+      runs: summaryPrograms.reduce((sum, program) => sum + program.runs.length, 0),
+      failed: failures.length,
+      skipped: skipped.length
+    },
+    failures
+  };
+
+  const json = JSON.stringify(summary, null, 2);
+  if (values.summary) await fs.writeFile(values.summary, `${json}\n`);
+  else console.log(json);
+  return failures.length > 0 || files.length === 0 ? 1 : 0;
+}
+
+async function main(argv: string[]) {
+  const [command, ...rest] = argv;
+  try {
+    if (command === 'run') return await run(rest);
+    if (command === undefined || command === '-h' || command === '--help') {
+      console.log(USAGE);
+      return command === undefined ? 2 : 0;
+    }
+    throw new UsageError(`Unknown command: ${command}`);
+  } catch (err) {
+    // parseArgs reports unknown or malformed options with these codes.
+    const code = (err as { code?: string }).code;
+    if (err instanceof UsageError || code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`autolab: ${(err as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (err instanceof SubmissionLayoutError) {
+      console.error(`autolab: ${err.message}`);
+      return 2;
+    }
+    console.error('autolab:', err);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,66 @@
+import React from 'react';
+import { CodeTheme } from '../types';
+import { highlightLines } from '../services/highlight';
+import { CODE_THEMES } from '../constants';
+
+interface CodeEditorProps {
+  value: string;
+  language: string;
+  theme: CodeTheme;
+  onChange: (value: string) => void;
+}
+
+// Spaces inserted by the Tab key; `highlightLines` also draws tabs as four spaces.
+const INDENT = '    ';
+
+/**
+ * Source editor with the same highlighting as the code snapshots: a transparent textarea typed
+ * into, laid exactly over the highlighted text.
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, language, theme, onChange }) => {
+  const colors = CODE_THEMES[theme];
+  const lines = highlightLines(value, language);
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  const insertIndent = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab') return;
+    event.preventDefault();
+    const target = event.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div
+      className="flex font-mono text-[13px] leading-relaxed max-h-[480px] overflow-auto rounded-xl border border-slate-200"
+      style={{ background: colors.background }}
+    >
+      <div className="flex-shrink-0 py-4 pl-4 pr-3 text-right select-none" style={{ width: `calc(${gutterWidth} + 1.75rem)`, color: colors.gutter }}>
+        {lines.map((_, idx) => <div key={idx}>{idx + 1}</div>)}
+      </div>
+      <div className="relative flex-1 min-w-max py-4 pr-4">
+        <pre aria-hidden className="m-0 font-mono whitespace-pre" style={{ color: colors.text, tabSize: 4 }}>
+          {lines.map((tokens, idx) => (
+            <div key={idx}>
+              {tokens.length === 0 ? ' ' : tokens.map((token, tIdx) => (
+                <span key={tIdx} style={token.kind === 'plain' ? undefined : { color: colors[token.kind] }}>{token.text}</span>
+              ))}
+            </div>
+          ))}
+        </pre>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={insertIndent}
+          spellCheck={false}
+          wrap="off"
+          className="absolute inset-0 py-4 pr-4 w-full h-full resize-none overflow-hidden bg-transparent text-transparent font-mono whitespace-pre focus:outline-none"
+          style={{ caretColor: colors.text, tabSize: 4, font: 'inherit', lineHeight: 'inherit' }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
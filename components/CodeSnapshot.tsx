@@ -0,0 +1,49 @@
+import React from 'react';
+import { CodeTheme } from '../types';
+import { CodePage } from '../services/highlight';
+import { CODE_THEMES } from '../constants';
+
+interface CodeSnapshotProps {
+  fileName: string;
+  page: CodePage;
+  pageIndex: number;
+  pageCount: number;
+  theme: CodeTheme;
+}
+
+// One page of highlighted source as an editor tab would show it; this is what gets captured.
+const CodeSnapshot: React.FC<CodeSnapshotProps> = ({ fileName, page, pageIndex, pageCount, theme }) => {
+  const colors = CODE_THEMES[theme];
+  const gutterWidth = `${String(page.firstLine + page.lines.length - 1).length + 1}ch`;
+
+  return (
+    <div className="rounded-2xl overflow-hidden shadow-2xl border border-slate-200" style={{ background: colors.background }}>
+      <div className="px-5 py-3 flex items-center justify-between" style={{ background: colors.chrome }}>
+        <div className="flex gap-2">
+          <div className="w-3 h-3 rounded-full bg-[#ff5f56]" />
+          <div className="w-3 h-3 rounded-full bg-[#ffbd2e]" />
+          <div className="w-3 h-3 rounded-full bg-[#27c93f]" />
+        </div>
+        <div className="text-[11px] font-mono font-bold tracking-wider" style={{ color: colors.gutter }}>
+          {fileName}{pageCount > 1 && ` (${pageIndex + 1}/${pageCount})`}
+        </div>
+      </div>
+      <div className="p-6 font-mono text-[13px] leading-relaxed overflow-hidden">
+        {page.lines.map((tokens, idx) => (
+          <div key={idx} className="flex gap-4">
+            <span className="flex-shrink-0 text-right select-none" style={{ width: gutterWidth, color: colors.gutter }}>
+              {page.firstLine + idx}
+            </span>
+            <span className="whitespace-pre-wrap break-all" style={{ color: colors.text }}>
+              {tokens.length === 0 ? ' ' : tokens.map((token, tIdx) => (
+                <span key={tIdx} style={token.kind === 'plain' ? undefined : { color: colors[token.kind] }}>{token.text}</span>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CodeSnapshot;
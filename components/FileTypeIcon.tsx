@@ -0,0 +1,23 @@
+import React from 'react';
+import { findLanguage } from '../services/languages';
+
+interface FileTypeIconProps {
+  language: string;
+}
+
+// Coloured badge with the language's short label, like an editor's file icon.
+const FileTypeIcon: React.FC<FileTypeIconProps> = ({ language }) => {
+  const definition = findLanguage(language);
+  const icon = definition?.icon ?? { label: language.slice(0, 3).toUpperCase() || '?', color: '#94a3b8' };
+  return (
+    <span
+      title={definition?.name ?? language}
+      className="flex-shrink-0 min-w-[26px] px-1 py-px rounded text-center text-[8px] font-black tracking-tight text-white"
+      style={{ background: icon.color }}
+    >
+      {icon.label}
+    </span>
+  );
+};
+
+export default FileTypeIcon;
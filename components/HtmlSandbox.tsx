@@ -0,0 +1,146 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ProgramFile } from '../types';
+import { buildSrcdoc, ConsoleEntry, SANDBOX_SOURCE, SandboxMessage } from '../services/htmlSandbox';
+
+// After `load`, the page counts as settled once it has logged nothing for SETTLE_MS (timers,
+// fetches and animations started on load get that long), but never waits longer than MAX_SETTLE_MS.
+const SETTLE_MS = 400;
+const MAX_SETTLE_MS = 3000;
+// Pages that never fire `load` (e.g. a script stuck in a loop) are given up on.
+const LOAD_TIMEOUT_MS = 10000;
+// Same for a page that never answers a capture request, so the snapshot fails instead of hanging.
+const CAPTURE_TIMEOUT_MS = 10000;
+
+export interface SandboxHandle {
+  // Reloads the page and resolves with what it logged once it has loaded and settled.
+  run(): Promise<ConsoleEntry[]>;
+  // Replaces the live page with a picture of it, so the surrounding snapshot can be captured.
+  freeze(scale: number): Promise<void>;
+  unfreeze(): void;
+}
+
+interface HtmlSandboxProps {
+  file: Pick<ProgramFile, 'content' | 'sources'>;
+  viewport: { width: number; height: number };
+  onReady: (handle: SandboxHandle | null) => void;
+}
+
+const newRunId = () => Math.random().toString(36).substring(2);
+
+/**
+ * Renders an HTML program in a sandboxed iframe (scripts allowed, but no access to AutoLab or
+ * its origin), scaled to fit the card while laying out at the configured viewport size.
+ */
+const HtmlSandbox: React.FC<HtmlSandboxProps> = ({ file, viewport, onReady }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [runId, setRunId] = useState(newRunId);
+  const [scale, setScale] = useState(1);
+  const [frozen, setFrozen] = useState<string | null>(null);
+  const listeners = useRef(new Set<(message: SandboxMessage) => void>());
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setScale(Math.min(1, container.clientWidth / viewport.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [viewport.width]);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      const message = event.data as SandboxMessage;
+      if (event.source !== frameRef.current?.contentWindow || message?.source !== SANDBOX_SOURCE) return;
+      listeners.current.forEach(listener => listener(message));
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => () => {
+    if (frozen) URL.revokeObjectURL(frozen);
+  }, [frozen]);
+
+  const listen = (listener: (message: SandboxMessage) => void) => {
+    listeners.current.add(listener);
+    return () => listeners.current.delete(listener);
+  };
+
+  useEffect(() => {
+    onReady({
+      run: () => new Promise(resolve => {
+        const id = newRunId();
+        const entries: ConsoleEntry[] = [];
+        let settleTimer: ReturnType<typeof setTimeout> | undefined;
+        let loadedAt: number | null = null;
+        const finish = () => {
+          stop();
+          clearTimeout(settleTimer);
+          clearTimeout(loadTimer);
+          resolve(entries);
+        };
+        const scheduleSettle = () => {
+          clearTimeout(settleTimer);
+          settleTimer = setTimeout(finish, Math.min(SETTLE_MS, loadedAt! + MAX_SETTLE_MS - Date.now()));
+        };
+        const loadTimer = setTimeout(() => {
+          entries.push({ level: 'error', text: `Page did not finish loading within ${LOAD_TIMEOUT_MS / 1000}s` });
+          finish();
+        }, LOAD_TIMEOUT_MS);
+        const stop = listen(message => {
+          if (message.runId !== id) return;
+          if (message.type === 'console') {
+            entries.push(message.entry);
+            if (loadedAt !== null) scheduleSettle();
+          } else if (message.type === 'loaded') {
+            loadedAt = Date.now();
+            scheduleSettle();
+          }
+        });
+        setFrozen(null);
+        setRunId(id);
+      }),
+      freeze: captureScale => new Promise<void>((resolve, reject) => {
+        const captureTimer = setTimeout(() => {
+          stop();
+          reject(new Error(`The page did not answer the capture request within ${CAPTURE_TIMEOUT_MS / 1000}s`));
+        }, CAPTURE_TIMEOUT_MS);
+        const stop = listen(message => {
+          if (message.type !== 'capture') return;
+          stop();
+          clearTimeout(captureTimer);
+          if (!message.blob) {
+            reject(new Error(message.error ?? 'The page could not be captured'));
+            return;
+          }
+          setFrozen(URL.createObjectURL(message.blob));
+          // Let the picture render before the caller captures the card.
+          requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+        });
+        frameRef.current?.contentWindow?.postMessage(
+          { type: 'autolab-capture', width: viewport.width, height: viewport.height, scale: captureScale },
+          '*'
+        );
+      }),
+      unfreeze: () => setFrozen(null)
+    });
+    return () => onReady(null);
+  }, [viewport.width, viewport.height]);
+
+  return (
+    <div ref={containerRef} className="w-full overflow-hidden" style={{ height: viewport.height * scale }}>
+      {frozen && <img src={frozen} alt="" style={{ width: viewport.width * scale, height: viewport.height * scale }} />}
+      {/* Hidden rather than unmounted while frozen, so the page keeps its state. */}
+      <iframe
+        ref={frameRef}
+        title="HTML preview"
+        sandbox="allow-scripts"
+        srcDoc={buildSrcdoc(file.content, file.sources ?? [], runId)}
+        className="border-0 bg-white origin-top-left"
+        style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})`, display: frozen ? 'none' : undefined }}
+      />
+    </div>
+  );
+};
+
+export default HtmlSandbox;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { InputSet } from '../types';
+import { createInputSet } from '../services/inputSets';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface InputSetsEditorProps {
+  inputs: InputSet[];
+  disabled?: boolean;
+  onChange: (inputs: InputSet[]) => void;
+}
+
+const InputSetsEditor: React.FC<InputSetsEditorProps> = ({ inputs, disabled, onChange }) => {
+  const update = (id: string, patch: Partial<InputSet>) =>
+    onChange(inputs.map(input => input.id === id ? { ...input, ...patch } : input));
+
+  return (
+    <details className="mb-4 mx-2 bg-white border border-slate-200 rounded-xl shadow-sm">
+      <summary className="px-4 py-2 cursor-pointer text-[10px] font-bold text-slate-500 uppercase tracking-widest select-none">
+        Standard Input {inputs.length > 0 ? `(${inputs.length} ${inputs.length === 1 ? 'set' : 'sets'})` : '(none)'}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {inputs.map(input => (
+          <div key={input.id} className="bg-slate-50 border border-slate-100 rounded-lg p-3">
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                value={input.name}
+                disabled={disabled}
+                onChange={(e) => update(input.id, { name: e.target.value })}
+                className="flex-1 bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-semibold focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              />
+              <button
+                onClick={() => onChange(inputs.filter(i => i.id !== input.id))}
+                disabled={disabled}
+                className="text-slate-300 hover:text-red-500 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              value={input.stdin}
+              disabled={disabled}
+              onChange={(e) => update(input.id, { stdin: e.target.value })}
+              rows={3}
+              placeholder="Lines sent to the program's stdin"
+              className="w-full bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+            <textarea
+              value={input.expectedOutput ?? ''}
+              disabled={disabled}
+              onChange={(e) => update(input.id, { expectedOutput: e.target.value || undefined })}
+              rows={2}
+              placeholder="Expected output (optional)"
+              className="mt-2 w-full bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...inputs, createInputSet(`Input ${inputs.length + 1}`)])}
+          disabled={disabled}
+          className="flex items-center gap-1.5 text-[10px] font-bold text-indigo-600 hover:text-indigo-700 uppercase tracking-wider disabled:text-slate-300"
+        >
+          <PlusIcon className="w-3.5 h-3.5" />
+          Add Input Set
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default InputSetsEditor;
@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import { CODE_THEMES } from '../constants';
+import { highlightLines } from '../services/highlight';
+import { findLanguage } from '../services/languages';
+import { parseNotebook } from '../services/notebook';
+
+interface NotebookViewProps {
+  fileName: string;
+  content: string;
+}
+
+const colors = CODE_THEMES['github-light'];
+
+// A notebook as Jupyter shows it: each code cell with the outputs saved in the file. Nothing is re-run.
+const NotebookView: React.FC<NotebookViewProps> = ({ fileName, content }) => {
+  const notebook = useMemo(() => {
+    try {
+      return parseNotebook(content);
+    } catch {
+      return null;
+    }
+  }, [content]);
+  const language = findLanguage(notebook?.language ?? '')?.id ?? 'py';
+
+  return (
+    <div className="bg-white">
+      <div className="px-5 py-3 border-b border-slate-200 flex items-center justify-between bg-[#f6f8fa]">
+        <span className="text-[11px] font-mono font-bold tracking-wider text-slate-500">{fileName}</span>
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#f37626]">Jupyter</span>
+      </div>
+      <div className="p-6 space-y-5 font-mono text-[13px] leading-relaxed">
+        {!notebook && <div className="text-red-600">This notebook could not be read.</div>}
+        {notebook?.cells.map((cell, cIdx) => (
+          <div key={cIdx} className="space-y-2">
+            <div className="flex gap-3">
+              <span className="flex-shrink-0 w-16 text-right text-[#303f9f]">In [{cell.executionCount ?? ' '}]:</span>
+              <pre className="flex-1 whitespace-pre-wrap break-all bg-[#f7f7f7] border border-[#e0e0e0] rounded px-3 py-2" style={{ fontFamily: 'inherit', color: colors.text }}>
+                {highlightLines(cell.source, language).map((tokens, lIdx) => (
+                  <div key={lIdx}>
+                    {tokens.length === 0 ? ' ' : tokens.map((token, tIdx) => (
+                      <span key={tIdx} style={token.kind === 'plain' ? undefined : { color: colors[token.kind] }}>{token.text}</span>
+                    ))}
+                  </div>
+                ))}
+              </pre>
+            </div>
+            {cell.outputs.map((output, oIdx) => (
+              <div key={oIdx} className="flex gap-3">
+                <span className="flex-shrink-0 w-16 text-right text-[#d84315]">{oIdx === 0 && cell.executionCount !== null ? `Out[${cell.executionCount}]:` : ''}</span>
+                <div className={`flex-1 px-3 ${output.isError ? 'bg-red-50 text-red-700 py-2 rounded' : 'text-slate-800'}`}>
+                  {output.image ? (
+                    <img src={output.image} alt={`Output of cell ${cell.executionCount ?? cIdx + 1}`} className="max-w-full" />
+                  ) : (
+                    <pre className="whitespace-pre-wrap break-all" style={{ fontFamily: 'inherit' }}>{output.text}</pre>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NotebookView;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { GradeResult } from '../types';
+
+interface OutputDiffProps {
+  grade: Pick<GradeResult, 'diff'>;
+  title?: string;
+  // What the two sides are, e.g. the real run vs the simulation.
+  labels?: { missing: string; extra: string };
+}
+
+// Unified view: lines the program should have printed are red, lines it printed instead are green.
+const OutputDiff: React.FC<OutputDiffProps> = ({ grade, title = 'Output Diff', labels = { missing: 'expected', extra: 'actual' } }) => (
+  <div className="mt-3 bg-white border border-amber-200 rounded-xl overflow-hidden shadow-sm">
+    <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 flex items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-amber-700">
+      {title}
+      <span className="text-red-500">- {labels.missing}</span>
+      <span className="text-emerald-600">+ {labels.extra}</span>
+    </div>
+    <div className="font-mono text-xs max-h-[240px] overflow-auto">
+      {grade.diff.map((line, idx) => (
+        <div
+          key={idx}
+          className={`flex gap-3 px-4 py-0.5 ${
+            line.kind === 'missing' ? 'bg-red-50 text-red-700' :
+            line.kind === 'extra' ? 'bg-emerald-50 text-emerald-700' : 'text-slate-500'
+          }`}
+        >
+          <span className="w-3 flex-shrink-0 select-none">
+            {line.kind === 'missing' ? '-' : line.kind === 'extra' ? '+' : ' '}
+          </span>
+          <span className="whitespace-pre-wrap break-all">{line.text || ' '}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default OutputDiff;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { VerificationStatus } from '../types';
+
+interface VerificationBadgeProps {
+  status: VerificationStatus;
+  // Shown on hover, e.g. why a run could not be verified.
+  title?: string;
+}
+
+const BADGES: Record<VerificationStatus, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'text-teal-600 bg-teal-50 border-teal-100' },
+  divergent: { label: 'Diverges from Real Run', className: 'text-rose-600 bg-rose-50 border-rose-100' },
+  unverifiable: { label: 'Unverified Simulation', className: 'text-slate-500 bg-slate-50 border-slate-200' }
+};
+
+// How a simulated output held up against a real run of the program.
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ status, title }) => (
+  <span
+    title={title}
+    className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full border shadow-sm ${BADGES[status].className}`}
+  >
+    {BADGES[status].label}
+  </span>
+);
+
+export default VerificationBadge;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { TerminalPresetStyle } from '../constants';
+
+interface WindowControlsProps {
+  controls: TerminalPresetStyle['controls'];
+  color: string;
+}
+
+// Minimise/maximise/close buttons in the style of the operating system the preset imitates.
+const WindowControls: React.FC<WindowControlsProps> = ({ controls, color }) => {
+  switch (controls) {
+    case 'mac':
+      return (
+        <div className="flex gap-2">
+          <div className="w-3 h-3 rounded-full bg-[#ff5f56]" />
+          <div className="w-3 h-3 rounded-full bg-[#ffbd2e]" />
+          <div className="w-3 h-3 rounded-full bg-[#27c93f]" />
+        </div>
+      );
+    case 'windows':
+      return (
+        <div className="flex gap-5 text-xs leading-none font-sans" style={{ color }}>
+          <span>&#x2500;</span>
+          <span>&#x25a1;</span>
+          <span>&#x2715;</span>
+        </div>
+      );
+    case 'gnome':
+      return (
+        <div className="w-5 h-5 rounded-full bg-white/10 flex items-center justify-center text-[10px] font-sans" style={{ color }}>
+          &#x2715;
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+export default WindowControls;
@@ -1,16 +1,196 @@
+import { CodeSnapshotOptions, CodeTheme, SnapshotStyle, TerminalPreset } from './types';
 
-export const LANGUAGES = [
-  { ext: 'py', name: 'Python' },
-  { ext: 'cpp', name: 'C++' },
-  { ext: 'js', name: 'JavaScript' },
-  { ext: 'java', name: 'Java' },
-  { ext: 'c', name: 'C' },
-  { ext: 'html', name: 'HTML' },
+
+export interface LanguageDefinition {
+  // Stored as `ProgramFile.language`; also keys the highlighter and the extension's toolchains.
+  id: string;
+  name: string;
+  // File extensions (lowercase, no dot); the first one is the usual one.
+  extensions: string[];
+  // Other names for the language, as used in notebook metadata or Markdown code fences.
+  aliases: string[];
+  // Terminal programs are simulated as a console session, browser ones as a page load; notebooks
+  // are not run at all, their saved outputs are shown instead.
+  kind: 'terminal' | 'browser' | 'notebook';
+  // Opening instruction of the built-in prompt template (see services/promptTemplates.ts).
+  prompt: string;
+  // Shown in the terminal snapshot, with [file] and [name] filled in. Only set for languages the
+  // VS Code extension can run locally (see TOOLCHAINS in vscode-extension/src/runner.ts).
+  runCommand?: string;
+  icon: { label: string; color: string };
+}
+
+export const terminalPrompt = (name: string) =>
+  `Act as a terminal environment. Run the following ${name} code and provide ONLY the standard output as it would appear in a command line interface. Do not explain anything. If there is an error, show the error message.`;
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'py', name: 'Python', extensions: ['py', 'pyw'], aliases: ['python', 'python3'], kind: 'terminal',
+    prompt: terminalPrompt('Python 3'), runCommand: 'python3 [file]', icon: { label: 'PY', color: '#3776ab' }
+  },
+  {
+    id: 'c', name: 'C', extensions: ['c', 'h'], aliases: [], kind: 'terminal',
+    prompt: terminalPrompt('C'), runCommand: 'gcc [file] -o [name] && ./[name]', icon: { label: 'C', color: '#5c6bc0' }
+  },
+  {
+    id: 'cpp', name: 'C++', extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh'], aliases: ['c++'], kind: 'terminal',
+    prompt: terminalPrompt('C++'), runCommand: 'g++ [file] -o [name] && ./[name]', icon: { label: 'C++', color: '#00599c' }
+  },
+  {
+    id: 'java', name: 'Java', extensions: ['java'], aliases: [], kind: 'terminal',
+    prompt: terminalPrompt('Java'), runCommand: 'javac [file] && java [name]', icon: { label: 'JV', color: '#e76f00' }
+  },
+  {
+    id: 'js', name: 'JavaScript', extensions: ['js', 'mjs', 'cjs'], aliases: ['javascript', 'node'], kind: 'terminal',
+    prompt: terminalPrompt('JavaScript (Node.js)'), runCommand: 'node [file]', icon: { label: 'JS', color: '#c9a800' }
+  },
+  {
+    id: 'ts', name: 'TypeScript', extensions: ['ts', 'mts', 'cts'], aliases: ['typescript'], kind: 'terminal',
+    prompt: terminalPrompt('TypeScript (Node.js)'), runCommand: 'node [file]', icon: { label: 'TS', color: '#3178c6' }
+  },
+  {
+    id: 'go', name: 'Go', extensions: ['go'], aliases: ['golang'], kind: 'terminal',
+    prompt: terminalPrompt('Go'), runCommand: 'go run [file]', icon: { label: 'GO', color: '#00add8' }
+  },
+  {
+    id: 'rs', name: 'Rust', extensions: ['rs'], aliases: ['rust'], kind: 'terminal',
+    prompt: terminalPrompt('Rust'), runCommand: 'rustc [file] && ./[name]', icon: { label: 'RS', color: '#b7410e' }
+  },
+  {
+    id: 'kt', name: 'Kotlin', extensions: ['kt', 'kts'], aliases: ['kotlin'], kind: 'terminal',
+    prompt: terminalPrompt('Kotlin'), runCommand: 'kotlinc [file] -include-runtime -d [name].jar && java -jar [name].jar',
+    icon: { label: 'KT', color: '#7f52ff' }
+  },
+  {
+    id: 'cs', name: 'C#', extensions: ['cs'], aliases: ['csharp', 'c#'], kind: 'terminal',
+    prompt: terminalPrompt('C#'), runCommand: 'dotnet run [file]', icon: { label: 'C#', color: '#68217a' }
+  },
+  {
+    id: 'rb', name: 'Ruby', extensions: ['rb'], aliases: ['ruby'], kind: 'terminal',
+    prompt: terminalPrompt('Ruby'), runCommand: 'ruby [file]', icon: { label: 'RB', color: '#cc342d' }
+  },
+  {
+    id: 'php', name: 'PHP', extensions: ['php'], aliases: [], kind: 'terminal',
+    prompt: terminalPrompt('PHP (command line)'), runCommand: 'php [file]', icon: { label: 'PHP', color: '#777bb4' }
+  },
+  {
+    id: 'sh', name: 'Shell', extensions: ['sh', 'bash'], aliases: ['bash', 'shell'], kind: 'terminal',
+    prompt: 'Act as a Linux bash shell. Run the following script and provide ONLY what it would print to the terminal. Do not explain anything. If a command fails, show its error message.',
+    runCommand: 'bash [file]', icon: { label: 'SH', color: '#4eaa25' }
+  },
+  {
+    id: 'sql', name: 'SQL', extensions: ['sql'], aliases: ['sqlite'], kind: 'terminal',
+    prompt: 'Act as the sqlite3 command-line shell. Execute the following SQL script against an empty in-memory database and provide ONLY what sqlite3 would print, with query results in its default list mode. Do not explain anything. If a statement fails, show the error message.',
+    runCommand: 'sqlite3 :memory: < [file]', icon: { label: 'SQL', color: '#e38c00' }
+  },
+  {
+    id: 'r', name: 'R', extensions: ['r'], aliases: [], kind: 'terminal',
+    prompt: 'Act as Rscript. Run the following R code and provide ONLY the output it would print to the terminal. Do not explain anything. If there is an error, show the error message.',
+    runCommand: 'Rscript [file]', icon: { label: 'R', color: '#276dc3' }
+  },
+  {
+    id: 'html', name: 'HTML', extensions: ['html', 'htm'], aliases: [], kind: 'browser',
+    prompt: 'Act as a Browser Developer Tools Console. Analyze the following HTML/JavaScript code. Provide ONLY the console logs (console.log, console.error, console.warn) that would be printed to the developer console upon page load. If there are no logs, return "Console was cleared.". Do not explain anything.',
+    icon: { label: 'HTML', color: '#e34c26' }
+  },
+  {
+    id: 'ipynb', name: 'Jupyter Notebook', extensions: ['ipynb'], aliases: ['jupyter'], kind: 'notebook',
+    prompt: '', icon: { label: 'NB', color: '#f37626' }
+  }
 ];
 
-export const TERMINAL_THEME = {
-  bg: '#0c0c0c',
-  header: '#1e1e1e',
-  text: '#cccccc',
-  accent: '#27c93f'
+export interface TerminalPresetStyle {
+  label: string;
+  // Window title and default prompt; both support [user], [host] and [file].
+  title: string;
+  prompt: string;
+  controls: 'mac' | 'windows' | 'gnome' | 'none';
+  fontFamily: string;
+  background: string;
+  header: string;
+  border: string;
+  titleColor: string;
+  text: string;
+  promptColor: string;
+  // Fills the corners around the rounded window in the captured image.
+  backdrop: string;
+  // Dark presets also get a dark browser window for HTML programs.
+  dark: boolean;
+}
+
+export const TERMINAL_PRESETS: Record<TerminalPreset, TerminalPresetStyle> = {
+  'windows-cmd': {
+    label: 'Windows CMD', title: 'Command Prompt', prompt: 'C:\\Users\\[user]\\Assignments>', controls: 'windows',
+    fontFamily: "Consolas, 'Courier New', monospace", background: '#0c0c0c', header: '#1f1f1f', border: '#2d2d2d',
+    titleColor: '#cccccc', text: '#cccccc', promptColor: '#cccccc', backdrop: '#f8fafc', dark: true
+  },
+  'powershell': {
+    label: 'PowerShell', title: 'Windows PowerShell', prompt: 'PS C:\\Users\\[user]\\Assignments>', controls: 'windows',
+    fontFamily: "Consolas, 'Courier New', monospace", background: '#012456', header: '#1f1f1f', border: '#2d2d2d',
+    titleColor: '#cccccc', text: '#eeedf0', promptColor: '#eeedf0', backdrop: '#f8fafc', dark: true
+  },
+  'macos': {
+    label: 'macOS Terminal', title: '[user] \u2014 -zsh \u2014 80\u00d724', prompt: '[user]@[host] Assignments %', controls: 'mac',
+    fontFamily: "Menlo, Monaco, 'Courier New', monospace", background: '#ffffff', header: '#e8e6e8', border: '#d1d1d1',
+    titleColor: '#4d4d4d', text: '#000000', promptColor: '#000000', backdrop: '#f8fafc', dark: false
+  },
+  'ubuntu': {
+    label: 'Ubuntu GNOME', title: '[user]@[host]: ~/Assignments', prompt: '[user]@[host]:~/Assignments$', controls: 'gnome',
+    fontFamily: "'Ubuntu Mono', 'DejaVu Sans Mono', monospace", background: '#300a24', header: '#2c2c2c', border: '#1f1f1f',
+    titleColor: '#ffffff', text: '#ffffff', promptColor: '#8ae234', backdrop: '#f8fafc', dark: true
+  },
+  'vscode': {
+    label: 'VS Code Terminal', title: 'TERMINAL', prompt: '[user]@[host]:~/Assignments$', controls: 'none',
+    fontFamily: "'Cascadia Code', Menlo, Consolas, monospace", background: '#1e1e1e', header: '#1e1e1e', border: '#2b2b2b',
+    titleColor: '#e7e7e7', text: '#cccccc', promptColor: '#23d18b', backdrop: '#181818', dark: true
+  },
+  'light': {
+    label: 'Light', title: 'Terminal - [file]', prompt: '~/Assignments>', controls: 'mac',
+    fontFamily: "ui-monospace, Menlo, Consolas, monospace", background: '#ffffff', header: '#f1f5f9', border: '#e2e8f0',
+    titleColor: '#64748b', text: '#1e293b', promptColor: '#16a34a', backdrop: '#f8fafc', dark: false
+  },
+  'dark': {
+    label: 'Dark', title: 'Terminal.exe - [file]', prompt: '~/Assignments>', controls: 'mac',
+    fontFamily: "ui-monospace, Menlo, Consolas, monospace", background: '#0c0c0c', header: '#1a1a1a', border: '#2d2d2d',
+    titleColor: '#666666', text: '#d4d4d4', promptColor: '#27c93f', backdrop: '#f8fafc', dark: true
+  }
+};
+
+// Browser window around HTML programs, following the preset's light or dark look.
+export const BROWSER_CHROME = {
+  light: { toolbar: '#f8fafc', addressBar: '#ffffff', border: '#e2e8f0', text: '#1e293b', muted: '#94a3b8', console: '#f3f4f6' },
+  dark: { toolbar: '#202124', addressBar: '#35363a', border: '#3c4043', text: '#e8eaed', muted: '#9aa0a6', console: '#292a2d' }
 };
+
+export const DEFAULT_SNAPSHOT_STYLE: SnapshotStyle = {
+  preset: 'dark',
+  prompt: '',
+  username: 'student',
+  hostname: 'autolab',
+  fontSize: 14,
+  imageScale: 1.5,
+  imageFormat: 'png',
+  viewportWidth: 1024,
+  viewportHeight: 640
+};
+
+// Editor themes for source code snapshots; token colours follow each theme's usual palette.
+export const CODE_THEMES: Record<CodeTheme, {
+  label: string;
+  background: string;
+  chrome: string;
+  gutter: string;
+  text: string;
+  keyword: string;
+  string: string;
+  comment: string;
+  number: string;
+}> = {
+  'github-light': { label: 'GitHub Light', background: '#ffffff', chrome: '#f6f8fa', gutter: '#8c959f', text: '#24292f', keyword: '#cf222e', string: '#0a3069', comment: '#6e7781', number: '#0550ae' },
+  'one-dark': { label: 'One Dark', background: '#282c34', chrome: '#21252b', gutter: '#636d83', text: '#abb2bf', keyword: '#c678dd', string: '#98c379', comment: '#5c6370', number: '#d19a66' },
+  'monokai': { label: 'Monokai', background: '#272822', chrome: '#1e1f1c', gutter: '#90908a', text: '#f8f8f2', keyword: '#f92672', string: '#e6db74', comment: '#75715e', number: '#ae81ff' },
+  'solarized-light': { label: 'Solarized Light', background: '#fdf6e3', chrome: '#eee8d5', gutter: '#93a1a1', text: '#657b83', keyword: '#859900', string: '#2aa198', comment: '#93a1a1', number: '#d33682' },
+  'dracula': { label: 'Dracula', background: '#282a36', chrome: '#21222c', gutter: '#6272a4', text: '#f8f8f2', keyword: '#ff79c6', string: '#f1fa8c', comment: '#6272a4', number: '#bd93f9' }
+};
+
+export const DEFAULT_CODE_SNAPSHOTS: CodeSnapshotOptions = { enabled: false, theme: 'github-light', linesPerImage: 40 };
@@ -0,0 +1,148 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiSettings, FileStatus, ProgramFile } from '../types';
+import { AiRequestError, createAiProvider, DEFAULT_AI_SETTINGS, generateWithRetry, isRateLimitError } from './aiProviders';
+import { generateOutput } from './aiService';
+
+interface StubReply {
+  status: number;
+  body: unknown;
+}
+
+// A local `/chat/completions` server answering with the queued replies, then the last one again.
+let server: Server;
+let replies: StubReply[];
+let received: { url?: string; headers: IncomingMessage['headers']; body: any }[];
+
+const reply = (content: string): StubReply => ({ status: 200, body: { choices: [{ message: { content } }] } });
+
+const settingsFor = (overrides: Partial<AiSettings> = {}): AiSettings => {
+  const { port } = server.address() as AddressInfo;
+  return { ...DEFAULT_AI_SETTINGS, provider: 'openai-compatible', model: 'stub', baseUrl: `http://127.0.0.1:${port}/v1/`, ...overrides };
+};
+
+const program: ProgramFile = { id: 'hello', name: 'hello.py', content: 'print("hi")', language: 'py', status: FileStatus.PENDING };
+const request = { prompt: 'Run it', systemInstruction: 'Be a terminal' };
+
+beforeEach(async () => {
+  replies = [];
+  received = [];
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+      const next = replies.length > 1 ? replies.shift()! : replies[0];
+      res.writeHead(next.status, { 'Content-Type': 'application/json' });
+      res.end(typeof next.body === 'string' ? next.body : JSON.stringify(next.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('posts a chat completion and returns the message', async () => {
+    replies = [reply('hi\n')];
+    const text = await createAiProvider(settingsFor({ apiKey: 'secret', temperature: 0.3 })).generate(request);
+
+    expect(text).toBe('hi\n');
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/v1/chat/completions');
+    expect(received[0].headers.authorization).toBe('Bearer secret');
+    expect(received[0].body).toEqual({
+      model: 'stub',
+      temperature: 0.3,
+      messages: [
+        { role: 'system', content: 'Be a terminal' },
+        { role: 'user', content: 'Run it' }
+      ]
+    });
+  });
+
+  it('maps HTTP failures to AiRequestError with the status', async () => {
+    replies = [{ status: 500, body: 'model crashed' }];
+    const error = await createAiProvider(settingsFor()).generate(request).catch(err => err);
+
+    expect(error).toBeInstanceOf(AiRequestError);
+    expect(error.status).toBe(500);
+    expect(error.message).toBe('HTTP 500: model crashed');
+    expect(isRateLimitError(error)).toBe(false);
+  });
+
+  it('uses the given request function instead of fetch', async () => {
+    const calls: string[] = [];
+    const stubFetch = (async (url: string) => {
+      calls.push(url);
+      return new Response(JSON.stringify({ choices: [{ message: { content: 'stubbed' } }] }));
+    }) as typeof fetch;
+
+    await expect(createAiProvider(settingsFor({ baseUrl: 'http://model.test/v1' }), stubFetch).generate(request)).resolves.toBe('stubbed');
+    expect(calls).toEqual(['http://model.test/v1/chat/completions']);
+  });
+});
+
+describe('generateWithRetry', () => {
+  it('backs off exponentially on 429 and then succeeds', async () => {
+    replies = [{ status: 429, body: 'slow down' }, { status: 429, body: 'slow down' }, reply('done')];
+    const delays: number[] = [];
+    const wait = async (ms: number) => { delays.push(ms); };
+
+    await expect(generateWithRetry(createAiProvider(settingsFor()), request, { wait })).resolves.toBe('done');
+    expect(received).toHaveLength(3);
+    expect(delays).toEqual([1500, 3000]);
+  });
+
+  it('rethrows the rate limit after the last attempt', async () => {
+    replies = [{ status: 429, body: 'slow down' }];
+    const delays: number[] = [];
+    const error = await generateWithRetry(createAiProvider(settingsFor()), request, {
+      maxAttempts: 3,
+      baseDelayMs: 10,
+      wait: async ms => { delays.push(ms); }
+    }).catch(err => err);
+
+    expect(isRateLimitError(error)).toBe(true);
+    expect(received).toHaveLength(3);
+    expect(delays).toEqual([10, 20]);
+  });
+
+  it('does not retry other errors', async () => {
+    replies = [{ status: 400, body: 'bad request' }];
+    await expect(generateWithRetry(createAiProvider(settingsFor()), request, { wait: async () => {} })).rejects.toThrow('HTTP 400');
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('generateOutput error messages', () => {
+  // generateOutput logs the underlying error before mapping it.
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the simulated output', async () => {
+    replies = [reply('hi')];
+    await expect(generateOutput(program, settingsFor())).resolves.toEqual({ output: 'hi' });
+  });
+
+  it('reports a failed request as an execution error', async () => {
+    replies = [{ status: 500, body: 'model crashed' }];
+    const { output } = await generateOutput(program, settingsFor());
+    expect(output).toBe('Execution Error: Failed to generate output via AI.');
+  });
+
+  it('reports an unreachable server', async () => {
+    const settings = settingsFor();
+    await new Promise(resolve => server.close(resolve));
+    server = createServer();
+    const { output } = await generateOutput(program, settings);
+    expect(output).toBe(`Execution Error: Could not reach ${settings.baseUrl}. Is the local model server running?`);
+  });
+});
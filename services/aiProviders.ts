@@ -0,0 +1,163 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiSettings } from '../types';
+
+export interface AiRequest {
+  prompt: string;
+  systemInstruction: string;
+}
+
+export interface AiProvider {
+  /** Human readable name used in error messages. */
+  label: string;
+  generate(request: AiRequest): Promise<string>;
+}
+
+/** HTTP failure from a provider, shaped so `getErrorStatus` can classify it. */
+export class AiRequestError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AiRequestError';
+    this.status = status;
+  }
+}
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  temperature: 0.1,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: ''
+};
+
+// Sensible starting model per provider when the user switches between them.
+export const DEFAULT_MODELS: Record<AiSettings['provider'], string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1'
+};
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const getErrorStatus = (error: unknown): number | undefined => {
+  // @google/genai throws ApiError with a JSON payload in message, but structure can vary.
+  const anyErr = error as any;
+  const direct =
+    anyErr?.status ??
+    anyErr?.code ??
+    anyErr?.response?.status ??
+    anyErr?.error?.code ??
+    anyErr?.error?.status;
+  if (typeof direct === 'number') return direct;
+  return undefined;
+};
+
+export const isRateLimitError = (error: unknown) => {
+  const status = getErrorStatus(error);
+  return status === 429 || String(error).includes('429') || String(error).includes('RESOURCE_EXHAUSTED');
+};
+
+const createGeminiProvider = (settings: AiSettings): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  return {
+    label: 'Gemini API',
+    async generate({ prompt, systemInstruction }) {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: { temperature: settings.temperature, systemInstruction }
+      });
+      return response.text || '';
+    }
+  };
+};
+
+// Speaks the `/chat/completions` dialect shared by Ollama, llama.cpp, vLLM, LM Studio and most proxies.
+const createOpenAiCompatibleProvider = (settings: AiSettings, request: typeof fetch): AiProvider => ({
+  label: `OpenAI-compatible endpoint (${settings.baseUrl})`,
+  async generate({ prompt, systemInstruction }) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    const response = await request(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AiRequestError(`HTTP ${response.status}: ${detail || response.statusText}`, response.status);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  }
+});
+
+/** `request` replaces `fetch` for the OpenAI-compatible provider, e.g. in tests. */
+export const createAiProvider = (settings: AiSettings, request: typeof fetch = fetch): AiProvider =>
+  settings.provider === 'openai-compatible'
+    ? createOpenAiCompatibleProvider(settings, request)
+    : createGeminiProvider(settings);
+
+/** Spaces out requests shared by parallel jobs; a 429 backoff holds every job, not just the one that hit it. */
+export interface RateLimiter {
+  acquire(): Promise<void>;
+  backoff(ms: number): void;
+  setRequestsPerMinute(requestsPerMinute: number): void;
+}
+
+/** `requestsPerMinute` of 0 means no limit, apart from backoffs. */
+export const createRateLimiter = (requestsPerMinute: number, wait = sleep): RateLimiter => {
+  let interval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  // Earliest time the next request may start; each acquire() claims a slot and moves it on.
+  let nextSlot = 0;
+  let blockedUntil = 0;
+
+  return {
+    async acquire() {
+      const start = Math.max(Date.now(), nextSlot, blockedUntil);
+      nextSlot = start + interval;
+      if (start > Date.now()) await wait(start - Date.now());
+    },
+    backoff(ms) {
+      blockedUntil = Math.max(blockedUntil, Date.now() + ms);
+    },
+    setRequestsPerMinute(value) {
+      interval = value > 0 ? 60000 / value : 0;
+    }
+  };
+};
+
+/**
+ * Calls the provider, backing off and retrying on transient rate limits (429).
+ * Any other error, or the last failed attempt, is rethrown to the caller.
+ */
+export const generateWithRetry = async (
+  provider: AiProvider,
+  request: AiRequest,
+  { maxAttempts = 4, baseDelayMs = 1500, wait = sleep, limiter }: { maxAttempts?: number; baseDelayMs?: number; wait?: typeof sleep; limiter?: RateLimiter } = {}
+): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await limiter?.acquire();
+      return await provider.generate(request);
+    } catch (err) {
+      if (!isRateLimitError(err) || attempt >= maxAttempts) {
+        throw err;
+      }
+      // Exponential backoff: 1.5s, 3s, 6s...
+      const delay = Math.round(baseDelayMs * Math.pow(2, attempt - 1));
+      limiter?.backoff(delay);
+      await wait(delay);
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { AiSettings, ProgramFile, PromptTemplates, TranscriptChunk } from '../types';
+import { createAiProvider, generateWithRetry, getErrorStatus, isRateLimitError, RateLimiter } from './aiProviders';
+import { ECHO_INSTRUCTION, hasEchoedInput, parseEchoedInput, transcriptOutput } from './transcript';
+import { programSources } from './programGroups';
+import { findLanguage } from './languages';
+import { NO_OUTPUT } from './executionService';
+import { renderTemplate, resolveTemplate } from './promptTemplates';
+
+// Multi-file programs are sent as one listing, each file under a `--- path ---` header (entry first).
+const codeListing = (file: ProgramFile) => file.sources?.length
+  ? [
+    `A program made of several files; run ${file.name}.`,
+    ...programSources(file).map(source => `--- ${source.path} ---\n${source.content}`)
+  ].join('\n\n')
+  : file.content;
+
+const buildRequest = (file: ProgramFile, templates: PromptTemplates, stdin?: string) => {
+  const language = findLanguage(file.language);
+  const template = resolveTemplate(file.language, templates);
+  const values = { code: codeListing(file), language: language?.name ?? file.language, filename: file.name, stdin: stdin ?? '' };
+  let prompt = renderTemplate(template.prompt, values);
+  if (stdin && language?.kind !== 'browser') {
+    // Templates that don't place the input themselves get it appended; the echo markers are always needed.
+    if (!template.prompt.includes('{{stdin}}')) prompt += `\n\nStandard input (stdin) supplied to the program:\n${stdin}`;
+    prompt += `\n\n${ECHO_INSTRUCTION}`;
+  }
+  return { prompt, systemInstruction: renderTemplate(template.systemInstruction, values) };
+};
+
+// Raw model output; never throws (see `generateOutput`).
+const simulate = async (
+  file: ProgramFile,
+  settings: AiSettings,
+  templates: PromptTemplates,
+  stdin?: string,
+  limiter?: RateLimiter
+): Promise<string> => {
+  const isHtml = file.language === 'html';
+  if (settings.provider === 'gemini' && !settings.apiKey) {
+    return "Execution Error: No Gemini API key configured. Add one in Settings (VS Code: run \"AutoLab: Set API Key\").";
+  }
+  const provider = createAiProvider(settings);
+
+  try {
+    const text = await generateWithRetry(provider, buildRequest(file, templates, stdin), { limiter });
+    return text || (isHtml ? "Console was cleared." : NO_OUTPUT);
+  } catch (error) {
+    console.error("AI Error:", error);
+    if (isRateLimitError(error)) {
+      return [
+        `Execution Error: ${provider.label} quota/rate limit exceeded (429).`,
+        settings.provider === 'gemini'
+          ? "Fix: wait a bit, reduce batch size, or enable billing / increase quota in Google AI Studio.\nDocs: https://ai.google.dev/gemini-api/docs/rate-limits"
+          : "Fix: wait a bit or reduce batch size."
+      ].join('\n');
+    }
+    if (settings.provider === 'openai-compatible' && getErrorStatus(error) === undefined) {
+      // fetch() rejects without a status when nothing is listening on the base URL.
+      return `Execution Error: Could not reach ${settings.baseUrl}. Is the local model server running?`;
+    }
+    return "Execution Error: Failed to generate output via AI.";
+  }
+};
+
+export interface SimulatedRun {
+  output: string;
+  // Only when stdin was supplied and the model echoed it.
+  transcript?: TranscriptChunk[];
+}
+
+/**
+ * Asks the configured AI provider to simulate running a file, using the custom prompt `templates`
+ * where there are any. Never throws: failures come back as an "Execution Error" message so they
+ * show up in the snapshot instead of breaking the batch.
+ */
+export const generateOutput = async (
+  file: ProgramFile,
+  settings: AiSettings,
+  stdin?: string,
+  limiter?: RateLimiter,
+  templates: PromptTemplates = {}
+): Promise<SimulatedRun> => {
+  const simulated = await simulate(file, settings, templates, stdin, limiter);
+  if (!stdin) return { output: simulated };
+  const transcript = parseEchoedInput(simulated);
+  return hasEchoedInput(transcript) ? { output: transcriptOutput(transcript), transcript } : { output: simulated };
+};
@@ -0,0 +1,222 @@
+import JSZip from 'jszip';
+import { ImageFormat, PackagingOptions, ProgramFile } from '../types';
+import { getRunSlots } from './inputSets';
+import { expandPattern } from './naming';
+import { blobImageFormat, IMAGE_FORMATS, imageSize } from './imageFormat';
+import { programSources } from './programGroups';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Placeholders a user template may contain; `{{programs}}` must sit in a paragraph of its own. */
+export const DOCX_PLACEHOLDERS = ['{{student}}', '{{roll}}', '{{course}}', '{{lab}}', '{{date}}', '{{count}}', '{{programs}}'];
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const IMAGE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+// Screenshots are scaled down to the 6" text width of an A4 page with default margins.
+const MAX_IMAGE_EMU = 6 * 914400;
+const EMU_PER_PX = 9525;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const run = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (content: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+const CODE_RUN = '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="18"/>';
+const CODE_PARAGRAPH = '<w:spacing w:before="0" w:after="0"/><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>';
+const PLACEHOLDER_RUN = '<w:i/><w:color w:val="64748B"/><w:highlight w:val="yellow"/>';
+
+const heading = (text: string, level: 1 | 2) =>
+  paragraph(run(text, `<w:b/><w:sz w:val="${level === 1 ? 32 : 24}"/>`), `<w:pStyle w:val="Heading${level}"/>`);
+
+const labelled = (label: string, placeholder: string) =>
+  paragraph(run(`${label}: `, '<w:b/>') + run(placeholder, PLACEHOLDER_RUN));
+
+interface DocxImage {
+  relId: string;
+  fileName: string;
+  format: ImageFormat;
+  data: Uint8Array;
+}
+
+// Images added by this export. Names and ids must not clash with anything already in the template,
+// which may well be an earlier AutoLab report.
+interface ImageRegistry {
+  images: DocxImage[];
+  prefix: string;
+  firstDrawingId: number;
+}
+
+const imageRun = (image: DocxImage, id: number) => {
+  const { width, height } = imageSize(image.data);
+  const scale = Math.min(1, MAX_IMAGE_EMU / (width * EMU_PER_PX));
+  const cx = Math.round(width * EMU_PER_PX * scale);
+  const cy = Math.round(height * EMU_PER_PX * scale);
+  // Namespaces are declared inline so the fragment is valid in any template.
+  return `<w:r><w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" distT="0" distB="0" distL="0" distR="0">`
+    + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="${image.fileName}"/>`
+    + `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${id}" name="${image.fileName}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip xmlns:r="${R_NS}" r:embed="${image.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+const codeBlock = (code: string) =>
+  code.replace(/\t/g, '    ').split(/\r?\n/).map(line => paragraph(run(line, CODE_RUN), CODE_PARAGRAPH));
+
+/** One section per program: title, aim, code block, output screenshots and conclusion. */
+const buildProgramSections = async (files: ProgramFile[], options: PackagingOptions, registry: ImageRegistry) => {
+  const { images, prefix } = registry;
+  const sections: string[] = [];
+  for (const [index, file] of files.entries()) {
+    const number = options.isNumberingEnabled ? `${options.startIndex + index}. ` : '';
+    const parts = [
+      heading(`${number}${file.name}`, 1),
+      labelled('Aim', '[Write the aim of this program]'),
+      heading('Source Code', 2),
+      // Multi-file programs get each file under its own path.
+      ...programSources(file).flatMap((source, _, sources) => [
+        ...(sources.length > 1 ? [paragraph(run(source.path, '<w:b/>'))] : []),
+        ...codeBlock(source.content)
+      ])
+    ];
+
+    const slots = getRunSlots(file);
+    for (const slot of slots) {
+      parts.push(heading(slot.label ? `Output (${slot.label})` : 'Output', 2));
+      if (slot.imageBlob) {
+        const format = blobImageFormat(slot.imageBlob);
+        const image: DocxImage = {
+          relId: `rId${prefix}_${images.length + 1}`,
+          fileName: `${prefix}_output_${images.length + 1}.${IMAGE_FORMATS[format].extension}`,
+          format,
+          data: new Uint8Array(await slot.imageBlob.arrayBuffer())
+        };
+        images.push(image);
+        parts.push(paragraph(imageRun(image, registry.firstDrawingId + images.length)));
+      } else {
+        (slot.output ?? 'Not run yet.').split(/\r?\n/).forEach(line => parts.push(paragraph(run(line, CODE_RUN), CODE_PARAGRAPH)));
+      }
+    }
+
+    parts.push(labelled('Conclusion', '[Write your conclusion]'));
+    if (index < files.length - 1) parts.push(paragraph('<w:r><w:br w:type="page"/></w:r>'));
+    sections.push(parts.join(''));
+  }
+  return sections.join('');
+};
+
+const DEFAULT_DOCUMENT = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>
+${paragraph(run('Lab Record'), '<w:pStyle w:val="Title"/>')}
+${paragraph(run('{{course}} · Lab {{lab}}'))}
+${paragraph(run('{{student}} ({{roll}})'))}
+${paragraph(run('{{count}} programs · {{date}}'))}
+${paragraph('<w:r><w:br w:type="page"/></w:r>')}
+${paragraph(run('{{programs}}'))}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+</w:body></w:document>`;
+
+const DEFAULT_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="2400" w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+</w:styles>`;
+
+/** Minimal Word document used when no template is supplied; it only contains the cover placeholders. */
+const createDefaultTemplate = () => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`);
+  zip.file('word/document.xml', DEFAULT_DOCUMENT);
+  zip.file('word/styles.xml', DEFAULT_STYLES);
+  return zip;
+};
+
+const paragraphText = (xml: string) =>
+  unescapeXml([...xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)].map(m => m[1]).join(''));
+
+/**
+ * Fills a template's `document.xml`. Word often splits `{{placeholder}}` across several runs, so any
+ * paragraph containing one is rebuilt as a single run that keeps the first run's formatting.
+ */
+const fillDocument = (xml: string, values: Record<string, string>, programsXml: string) =>
+  xml.replace(/<w:p(?:\s[^>]*)?>(?:(?!<\/w:p>)[\s\S])*<\/w:p>|<w:p\/>/g, para => {
+    const text = paragraphText(para);
+    if (!/\{\{\w+\}\}/.test(text)) return para;
+    if (text.trim() === '{{programs}}') return programsXml;
+
+    const filled = text.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+    const pPr = para.match(/<w:pPr>[\s\S]*?<\/w:pPr>/)?.[0] ?? '';
+    const rPr = para.replace(pPr, '').match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] ?? '';
+    return `<w:p>${pPr}<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(filled)}</w:t></w:r></w:p>`;
+  });
+
+/**
+ * Builds a Word lab report, either from the built-in layout or from a user-supplied `.docx`
+ * template containing the `DOCX_PLACEHOLDERS`.
+ */
+export const generateLabReportDocx = async (
+  files: ProgramFile[],
+  options: PackagingOptions,
+  template?: Uint8Array
+): Promise<Blob> => {
+  const zip = template ? await JSZip.loadAsync(template) : createDefaultTemplate();
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) throw new Error('The Word template has no word/document.xml.');
+
+  const documentXml = await documentFile.async('string');
+  const drawingIds = [...documentXml.matchAll(/<wp:docPr[^>]*\sid="(\d+)"/g)].map(m => Number(m[1]));
+  const registry: ImageRegistry = {
+    images: [],
+    prefix: `autolab${Date.now().toString(36)}`,
+    firstDrawingId: Math.max(0, ...drawingIds) + 1
+  };
+  const { images } = registry;
+  const programsXml = await buildProgramSections(files, options, registry);
+  const { student } = options;
+  const values: Record<string, string> = {
+    student: student.studentName,
+    roll: student.rollNumber,
+    course: student.course,
+    lab: student.labNumber,
+    date: expandPattern('[date]', options),
+    count: String(files.length)
+  };
+  zip.file('word/document.xml', fillDocument(documentXml, values, programsXml));
+
+  // Register the screenshots with the package
+  if (images.length > 0) {
+    images.forEach(image => zip.file(`word/media/${image.fileName}`, image.data));
+
+    const relsPath = 'word/_rels/document.xml.rels';
+    const rels = await zip.file(relsPath)?.async('string')
+      ?? '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+    const imageRels = images.map(image => `<Relationship Id="${image.relId}" Type="${IMAGE_REL}" Target="media/${image.fileName}"/>`).join('');
+    zip.file(relsPath, rels.replace('</Relationships>', `${imageRels}</Relationships>`));
+
+    let types = await zip.file('[Content_Types].xml')!.async('string');
+    new Set(images.map(image => image.format)).forEach(format => {
+      const { extension, mimeType } = IMAGE_FORMATS[format];
+      if (!new RegExp(`Extension="${extension}"`, 'i').test(types)) {
+        types = types.replace('<Default ', `<Default Extension="${extension}" ContentType="${mimeType}"/><Default `);
+      }
+    });
+    zip.file('[Content_Types].xml', types);
+  }
+
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
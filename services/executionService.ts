@@ -0,0 +1,60 @@
+import { ProgramFile, RunResult, TranscriptChunk } from '../types';
+import { isVsCodeWebview, requestHost } from './vscodeBridge';
+import { appendChunk } from './transcript';
+import { LANGUAGES } from '../constants';
+
+// Languages the extension host knows how to compile/run: the ones with a `runCommand`.
+export const LOCAL_LANGUAGES = LANGUAGES.filter(language => language.runCommand).map(language => language.id);
+
+export const isLocalExecutionAvailable = () => isVsCodeWebview();
+
+export const canRunLocally = (file: ProgramFile) =>
+  isLocalExecutionAvailable() && LOCAL_LANGUAGES.includes(file.language);
+
+/**
+ * Runs the file in the extension host. `interactive` runs feed stdin line by line so the snapshot
+ * can echo it, which is slower; comparisons only need the output and write it in one go.
+ */
+export const runLocally = (file: ProgramFile, stdin?: string, interactive = false): Promise<RunResult> =>
+  requestHost<RunResult>('run', {
+    fileName: file.name,
+    content: file.content,
+    language: file.language,
+    stdin,
+    interactive,
+    files: file.sources
+  });
+
+// Shown, by runs and simulations alike, when a program printed nothing.
+export const NO_OUTPUT = 'No output generated.';
+
+/** What the program printed, stdout then stderr, without trailing whitespace. */
+export const runOutput = (result: RunResult) => [result.stdout, result.stderr].filter(Boolean).join('').trimEnd();
+
+// Note shown after the output when the process did not exit cleanly.
+const runTrailer = (result: RunResult) => {
+  if (result.timedOut) return `[Process timed out after ${(result.durationMs / 1000).toFixed(1)}s]`;
+  if (result.exitCode !== null && result.exitCode !== 0) return `[Process exited with code ${result.exitCode}]`;
+  return '';
+};
+
+/**
+ * Turns a captured run into the text shown in the terminal snapshot:
+ * stdout first, then stderr, then a note when the process did not exit cleanly.
+ */
+export const formatRunOutput = (result: RunResult): string => {
+  const output = [runOutput(result), runTrailer(result)].filter(Boolean).join('\n');
+  return output || NO_OUTPUT;
+};
+
+/** Same as `formatRunOutput`, but with stdin echoed where the program read it; undefined for runs without input. */
+export const formatRunTranscript = (result: RunResult): TranscriptChunk[] | undefined => {
+  if (!result.transcript?.length) return undefined;
+  const chunks = result.transcript.map(chunk => ({ ...chunk }));
+  const trailer = runTrailer(result);
+  if (trailer) {
+    const last = chunks[chunks.length - 1];
+    appendChunk(chunks, 'output', last.text.endsWith('\n') ? trailer : `\n${trailer}`);
+  }
+  return chunks;
+};
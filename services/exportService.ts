@@ -0,0 +1,31 @@
+import { PackagingOptions, ProgramFile } from '../types';
+import { generateSubmissionZip } from './zipService';
+import { generateLabRecordPdf } from './pdfService';
+import { generateLabReportDocx } from './docxService';
+
+export type ExportFormat = 'zip' | 'pdf' | 'docx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  zip: { label: 'Package Zip', extension: 'zip' },
+  pdf: { label: 'Export PDF', extension: 'pdf' },
+  docx: { label: 'Export DOCX', extension: 'docx' }
+};
+
+export interface ExportExtras {
+  // User-supplied Word template; the built-in layout is used without one.
+  docxTemplate?: Uint8Array;
+}
+
+/** Single entry point for every output format, so one processed batch can be exported any way. */
+export const exportSubmission = (
+  format: ExportFormat,
+  files: ProgramFile[],
+  options: PackagingOptions,
+  extras: ExportExtras = {}
+): Promise<Blob> => {
+  switch (format) {
+    case 'pdf': return generateLabRecordPdf(files, options);
+    case 'docx': return generateLabReportDocx(files, options, extras.docxTemplate);
+    default: return generateSubmissionZip(files, options);
+  }
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FileStatus, InputSet, ProgramFile } from '../types';
+import { createFileStore, filesReducer } from './fileStore';
+import { DEFAULT_GRADING_OPTIONS } from './grading';
+
+const program = (id: string, path: string, extra: Partial<ProgramFile> = {}): ProgramFile => ({
+  id,
+  name: path.split('/').pop()!,
+  path,
+  content: `print("${id}")`,
+  language: 'py',
+  status: FileStatus.PENDING,
+  ...extra
+});
+
+const input = (id: string, extra: Partial<InputSet> = {}): InputSet => ({ id, name: `${id}.in`, stdin: `${id}\n`, ...extra });
+
+const find = (files: ProgramFile[], id: string) => files.find(file => file.id === id)!;
+
+describe('filesReducer', () => {
+  describe('add', () => {
+    it('keeps programs with the same name from different folders apart', () => {
+      const files = filesReducer([program('a', 'week1/prog.py')], { type: 'add', files: [program('b', 'week2/prog.py')] });
+      expect(files.map(file => file.id)).toEqual(['a', 'b']);
+    });
+
+    it('replaces a program uploaded again under the same path, in place and with the new id', () => {
+      const before = [program('a', 'lab/one.py'), program('b', 'lab/two.py', { status: FileStatus.COMPLETED, output: 'old' })];
+      const files = filesReducer(before, { type: 'add', files: [program('c', 'lab/two.py'), program('d', 'lab/three.py')] });
+
+      expect(files.map(file => file.id)).toEqual(['a', 'c', 'd']);
+      expect(find(files, 'c').status).toBe(FileStatus.PENDING);
+      expect(find(files, 'c').output).toBeUndefined();
+    });
+
+    it('drops results of a run still in flight for the replaced program', () => {
+      const files = filesReducer([program('a', 'lab/one.py')], { type: 'add', files: [program('b', 'lab/one.py')] });
+      const after = filesReducer(files, { type: 'setRunResult', id: 'a', patch: { output: 'stale' } });
+      expect(after).toEqual(files);
+    });
+
+    it('keeps the last of several uploads with the same path', () => {
+      const files = filesReducer([], { type: 'add', files: [program('a', 'lab/one.py'), program('b', 'lab/one.py')] });
+      expect(files.map(file => file.id)).toEqual(['b']);
+    });
+  });
+
+  it('restores, removes and clears programs', () => {
+    const restored = filesReducer([program('x', 'x.py')], { type: 'restore', files: [program('a', 'a.py'), program('b', 'b.py')] });
+    expect(restored.map(file => file.id)).toEqual(['a', 'b']);
+    expect(filesReducer(restored, { type: 'remove', id: 'a' }).map(file => file.id)).toEqual(['b']);
+    expect(filesReducer(restored, { type: 'clear' })).toEqual([]);
+  });
+
+  it('sets the status of one program', () => {
+    const files = filesReducer([program('a', 'a.py'), program('b', 'b.py')], { type: 'setStatus', id: 'b', status: FileStatus.RUNNING });
+    expect(files.map(file => file.status)).toEqual([FileStatus.PENDING, FileStatus.RUNNING]);
+  });
+
+  it('applies run results to the program or to one of its input sets', () => {
+    const files = [program('a', 'a.py', { inputs: [input('one'), input('two')] })];
+    const onFile = filesReducer(files, { type: 'setRunResult', id: 'a', patch: { output: 'file output' } });
+    const onInput = filesReducer(files, { type: 'setRunResult', id: 'a', inputId: 'two', patch: { output: 'second', simulated: true } });
+
+    expect(onFile[0].output).toBe('file output');
+    expect(onInput[0].output).toBeUndefined();
+    expect(onInput[0].inputs!.map(set => set.output)).toEqual([undefined, 'second']);
+    expect(onInput[0].inputs![1].simulated).toBe(true);
+  });
+
+  it('resets earlier runs when the inputs change', () => {
+    const files = [program('a', 'a.py', { status: FileStatus.COMPLETED, output: 'old', inputs: [input('one', { output: 'old' })] })];
+    const [file] = filesReducer(files, { type: 'setInputs', id: 'a', inputs: [input('one', { output: 'old' }), input('two')] });
+
+    expect(file.status).toBe(FileStatus.PENDING);
+    expect(file.output).toBeUndefined();
+    expect(file.inputs!.map(set => [set.id, set.output])).toEqual([['one', undefined], ['two', undefined]]);
+  });
+
+  it('keeps the uploaded source while it is edited', () => {
+    const files = [program('a', 'a.py', { content: 'print(1)' })];
+    const edited = filesReducer(files, { type: 'editSource', id: 'a', content: 'print(2)' });
+    expect(edited[0]).toMatchObject({ content: 'print(2)', originalContent: 'print(1)' });
+
+    const reverted = filesReducer(edited, { type: 'editSource', id: 'a', content: 'print(1)' });
+    expect(reverted[0]).toMatchObject({ content: 'print(1)', originalContent: undefined });
+  });
+
+  it('regrades an edited output and keeps the generated one', () => {
+    const files = [program('a', 'a.py', {
+      status: FileStatus.COMPLETED,
+      inputs: [input('one', { output: '3', expectedOutput: '4', transcript: [{ kind: 'output', text: '3' }] })]
+    })];
+    const [file] = filesReducer(files, { type: 'editOutput', id: 'a', inputId: 'one', output: '4', gradingOptions: DEFAULT_GRADING_OPTIONS });
+
+    expect(file.inputs![0]).toMatchObject({ output: '4', originalOutput: '3', transcript: undefined });
+    expect(file.inputs![0].grade?.passed).toBe(true);
+  });
+
+  it('completes a program and grades it against the expected output', () => {
+    const files = [program('a', 'a.py', { output: 'hello', expectedOutput: 'goodbye' })];
+    const [completed] = filesReducer(files, { type: 'complete', id: 'a', gradingOptions: DEFAULT_GRADING_OPTIONS });
+    expect(completed.status).toBe(FileStatus.MISMATCH);
+
+    const [regraded] = filesReducer([{ ...completed, output: 'GOODBYE' }], {
+      type: 'regrade',
+      gradingOptions: { ...DEFAULT_GRADING_OPTIONS, ignoreCase: true }
+    });
+    expect(regraded.status).toBe(FileStatus.COMPLETED);
+  });
+});
+
+describe('createFileStore', () => {
+  it('notifies subscribers until they unsubscribe', () => {
+    const store = createFileStore([program('a', 'a.py')]);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.dispatch({ type: 'setStatus', id: 'a', status: FileStatus.RUNNING });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState()[0].status).toBe(FileStatus.RUNNING);
+
+    unsubscribe();
+    store.dispatch({ type: 'clear' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toEqual([]);
+  });
+});
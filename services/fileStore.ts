@@ -0,0 +1,135 @@
+import { FileStatus, GradingOptions, InputSet, ProgramFile } from '../types';
+import { applyGrades } from './grading';
+
+/** What one run produces; applied to the file itself or to one of its input sets. */
+export type RunPatch = Partial<Pick<InputSet, 'output' | 'transcript' | 'runResult' | 'simulated' | 'verification' | 'originalOutput' | 'imageBlob'>>;
+
+export type FileAction =
+  | { type: 'add'; files: ProgramFile[] }
+  | { type: 'restore'; files: ProgramFile[] }
+  | { type: 'remove'; id: string }
+  | { type: 'clear' }
+  | { type: 'setStatus'; id: string; status: FileStatus }
+  | { type: 'setRunResult'; id: string; inputId?: string; patch: RunPatch }
+  | { type: 'setCodeImages'; id: string; codeImages: Blob[] }
+  | { type: 'setInputs'; id: string; inputs: InputSet[] }
+  | { type: 'editSource'; id: string; content: string }
+  | { type: 'editOutput'; id: string; inputId?: string; output: string; gradingOptions: GradingOptions }
+  | { type: 'complete'; id: string; gradingOptions: GradingOptions }
+  | { type: 'regrade'; gradingOptions: GradingOptions };
+
+// Files from different folders may share a name; the relative path is what identifies them.
+export const filePath = (file: Pick<ProgramFile, 'name' | 'path'>) => file.path ?? file.name;
+
+const RUN_RESET: RunPatch & Pick<InputSet, 'grade'> = {
+  output: undefined,
+  transcript: undefined,
+  runResult: undefined,
+  grade: undefined,
+  simulated: undefined,
+  verification: undefined,
+  originalOutput: undefined,
+  imageBlob: undefined
+};
+
+type EditableRun = Pick<InputSet, 'output' | 'originalOutput'>;
+
+/**
+ * Output typed over by hand. The first edit keeps what the run printed, so the report can tell;
+ * the echoed input and the verification no longer describe the new text and are dropped.
+ */
+const editOutput = <T extends EditableRun>(run: T, output: string): T => {
+  if (output === run.output) return run;
+  const originalOutput = run.originalOutput ?? run.output;
+  return {
+    ...run,
+    output,
+    transcript: undefined,
+    verification: undefined,
+    originalOutput: output === originalOutput ? undefined : originalOutput
+  };
+};
+
+const updateFile = (files: ProgramFile[], id: string, update: (file: ProgramFile) => ProgramFile) =>
+  files.map(file => file.id === id ? update(file) : file);
+
+/**
+ * Every change to the loaded programs goes through here, so in-flight runs always work on the
+ * current state instead of a copy captured when they started.
+ */
+export const filesReducer = (files: ProgramFile[], action: FileAction): ProgramFile[] => {
+  switch (action.type) {
+    case 'add': {
+      // Uploading a path that is already loaded replaces that program in its place. The upload's
+      // own id is kept, so a run still in flight for the old program can't write into the new one.
+      const incoming = new Map(action.files.map(file => [filePath(file), file]));
+      const replaced = files.map(file => {
+        const update = incoming.get(filePath(file));
+        if (!update) return file;
+        incoming.delete(filePath(file));
+        return update;
+      });
+      return [...replaced, ...incoming.values()];
+    }
+    case 'restore':
+      return action.files;
+    case 'remove':
+      return files.filter(file => file.id !== action.id);
+    case 'clear':
+      return [];
+    case 'setStatus':
+      return updateFile(files, action.id, file => ({ ...file, status: action.status }));
+    case 'setRunResult':
+      return updateFile(files, action.id, file => action.inputId
+        ? { ...file, inputs: file.inputs?.map(input => input.id === action.inputId ? { ...input, ...action.patch } : input) }
+        : { ...file, ...action.patch });
+    case 'setCodeImages':
+      return updateFile(files, action.id, file => ({ ...file, codeImages: action.codeImages }));
+    case 'setInputs':
+      // Changing the inputs invalidates earlier runs.
+      return updateFile(files, action.id, file => ({
+        ...file,
+        ...RUN_RESET,
+        inputs: action.inputs.map(input => ({ ...input, ...RUN_RESET })),
+        status: FileStatus.PENDING
+      }));
+    case 'editSource':
+      return updateFile(files, action.id, file => {
+        const originalContent = file.originalContent ?? file.content;
+        return { ...file, content: action.content, originalContent: action.content === originalContent ? undefined : originalContent };
+      });
+    case 'editOutput':
+      return updateFile(files, action.id, file => applyGrades(action.inputId
+        ? { ...file, inputs: file.inputs?.map(input => input.id === action.inputId ? editOutput(input, action.output) : input) }
+        : editOutput(file, action.output), action.gradingOptions));
+    case 'complete':
+      return updateFile(files, action.id, file => applyGrades({ ...file, status: FileStatus.COMPLETED }, action.gradingOptions));
+    case 'regrade':
+      return files.map(file => applyGrades(file, action.gradingOptions));
+  }
+};
+
+export interface FileStore {
+  getState(): ProgramFile[];
+  dispatch(action: FileAction): void;
+  subscribe(listener: () => void): () => void;
+}
+
+/** Holds the programs outside React; components read it with `useSyncExternalStore`. */
+export const createFileStore = (initial: ProgramFile[] = []): FileStore => {
+  let state = initial;
+  const listeners = new Set<() => void>();
+  return {
+    getState: () => state,
+    dispatch(action) {
+      const next = filesReducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
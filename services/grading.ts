@@ -0,0 +1,193 @@
+import { DiffLine, FileStatus, GradeResult, GradingOptions, ProgramFile } from '../types';
+import { getRunSlots, RunSlot } from './inputSets';
+
+export type RunVerdict = 'pass' | 'mismatch' | 'ungraded';
+
+export const DEFAULT_GRADING_OPTIONS: GradingOptions = {
+  whitespace: 'trailing',
+  ignoreCase: false,
+  floatTolerance: 0
+};
+
+// Keeps the LCS table bounded for programs that print huge outputs.
+const MAX_DIFF_LINES = 2000;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+const normalizeLines = (text: string, options: GradingOptions): string[] => {
+  let lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  if (options.whitespace === 'all') {
+    lines = lines.map(line => line.replace(/\s+/g, ' ').trim()).filter(line => line.length > 0);
+  } else if (options.whitespace === 'trailing') {
+    lines = lines.map(line => line.trimEnd());
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  } else if (lines.length > 0 && lines[lines.length - 1] === '') {
+    // A single final newline is never significant.
+    lines.pop();
+  }
+
+  return options.ignoreCase ? lines.map(line => line.toLowerCase()) : lines;
+};
+
+const linesEqual = (actual: string, expected: string, options: GradingOptions) => {
+  if (actual === expected) return true;
+  if (options.floatTolerance <= 0) return false;
+
+  const a = actual.trim().split(/\s+/);
+  const b = expected.trim().split(/\s+/);
+  if (a.length !== b.length) return false;
+
+  return a.every((token, i) => {
+    if (token === b[i]) return true;
+    if (!NUMBER.test(token) || !NUMBER.test(b[i])) return false;
+    return Math.abs(parseFloat(token) - parseFloat(b[i])) <= options.floatTolerance;
+  });
+};
+
+/** Line diff (longest common subsequence) of actual vs expected output, over the first MAX_DIFF_LINES lines. */
+const diffLines = (actual: string[], expected: string[], options: GradingOptions): DiffLine[] => {
+  const a = actual.slice(0, MAX_DIFF_LINES);
+  const e = expected.slice(0, MAX_DIFF_LINES);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(e.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = e.length - 1; j >= 0; j--) {
+      lcs[i][j] = linesEqual(a[i], e[j], options)
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < e.length) {
+    if (linesEqual(a[i], e[j], options)) {
+      diff.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ kind: 'extra', text: a[i++] });
+    } else {
+      diff.push({ kind: 'missing', text: e[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ kind: 'extra', text: a[i++] });
+  while (j < e.length) diff.push({ kind: 'missing', text: e[j++] });
+  if (actual.length > MAX_DIFF_LINES || expected.length > MAX_DIFF_LINES) {
+    diff.push({ kind: 'same', text: `… diff stops after ${MAX_DIFF_LINES} lines` });
+  }
+
+  return diff;
+};
+
+export const gradeOutput = (actual: string, expected: string, options: GradingOptions): GradeResult => {
+  const a = normalizeLines(actual, options);
+  const e = normalizeLines(expected, options);
+  // Judged on every line: the diff shown stops at MAX_DIFF_LINES.
+  const passed = a.length === e.length && a.every((line, i) => linesEqual(line, e[i], options));
+  return { passed, diff: diffLines(a, e, options) };
+};
+
+// Real runs are graded on stdout alone; simulated runs only have the combined output, and an
+// output edited by hand is graded as it now reads.
+const gradedText = (slot: RunSlot) => slot.runResult && slot.originalOutput === undefined ? slot.runResult.stdout : slot.output;
+
+export const gradeSlot = (slot: RunSlot, options: GradingOptions): GradeResult | undefined => {
+  const actual = gradedText(slot);
+  if (slot.expectedOutput === undefined || actual === undefined) return undefined;
+  return gradeOutput(actual, slot.expectedOutput, options);
+};
+
+export const getVerdict = (slot: RunSlot): RunVerdict =>
+  !slot.grade ? 'ungraded' : slot.grade.passed ? 'pass' : 'mismatch';
+
+/**
+ * Re-grades every run of a finished file and moves it between COMPLETED and MISMATCH.
+ * Files that are pending, running or errored are returned untouched.
+ */
+export const applyGrades = (file: ProgramFile, options: GradingOptions): ProgramFile => {
+  if (file.status !== FileStatus.COMPLETED && file.status !== FileStatus.MISMATCH) return file;
+
+  let mismatched = false;
+  const slots = getRunSlots(file);
+  const graded = { ...file };
+  if (file.inputs && file.inputs.length > 0) {
+    graded.inputs = file.inputs.map((input, i) => {
+      const grade = gradeSlot(slots[i], options);
+      if (grade && !grade.passed) mismatched = true;
+      return { ...input, grade };
+    });
+  } else {
+    graded.grade = gradeSlot(slots[0], options);
+    if (graded.grade && !graded.grade.passed) mismatched = true;
+  }
+
+  graded.status = mismatched ? FileStatus.MISMATCH : FileStatus.COMPLETED;
+  return graded;
+};
+
+export const hasExpectedOutput = (file: ProgramFile) =>
+  getRunSlots(file).some(slot => slot.expectedOutput !== undefined);
+
+export const hasManualEdits = (file: ProgramFile) =>
+  file.originalContent !== undefined || getRunSlots(file).some(slot => slot.originalOutput !== undefined);
+
+interface ReportEntry {
+  file: string;
+  folder: string;
+  status: string;
+  sourceEdited: boolean;
+  runs: { input: string | null; verdict: RunVerdict; outputEdited: boolean }[];
+}
+
+/** Builds the `report.json` / `report.md` pair summarising every graded run and every manual edit. */
+export const buildGradingReport = (
+  files: ProgramFile[],
+  folderNameOf: (file: ProgramFile, index: number) => string,
+  options: GradingOptions
+) => {
+  const entries: ReportEntry[] = files.map((file, index) => ({
+    file: file.name,
+    folder: folderNameOf(file, index),
+    status: file.status,
+    sourceEdited: file.originalContent !== undefined,
+    runs: getRunSlots(file).map(slot => ({
+      input: slot.label ?? null,
+      verdict: getVerdict(slot),
+      outputEdited: slot.originalOutput !== undefined
+    }))
+  }));
+
+  const runs = entries.flatMap(entry => entry.runs);
+  const summary = {
+    programs: files.length,
+    runs: runs.length,
+    passed: runs.filter(run => run.verdict === 'pass').length,
+    mismatched: runs.filter(run => run.verdict === 'mismatch').length,
+    ungraded: runs.filter(run => run.verdict === 'ungraded').length,
+    editedSources: entries.filter(entry => entry.sourceEdited).length,
+    editedOutputs: runs.filter(run => run.outputEdited).length
+  };
+
+  const json = JSON.stringify({ generatedAt: new Date().toISOString(), options, summary, files: entries }, null, 2);
+
+  const verdictLabel: Record<RunVerdict, string> = { pass: 'PASS', mismatch: 'MISMATCH', ungraded: '-' };
+  const markdown = [
+    '# AutoLab Grading Report',
+    '',
+    `Passed **${summary.passed}** of ${summary.runs} runs (${summary.mismatched} mismatched, ${summary.ungraded} without expected output).`,
+    '',
+    `Edited by hand in AutoLab: ${summary.editedSources} source file${summary.editedSources === 1 ? '' : 's'}, ${summary.editedOutputs} output${summary.editedOutputs === 1 ? '' : 's'}.`,
+    '',
+    '| # | Program | Folder | Input | Result | Edited |',
+    '|---|---------|--------|-------|--------|--------|',
+    ...entries.flatMap((entry, index) => entry.runs.map(run => {
+      const edited = [entry.sourceEdited && 'source', run.outputEdited && 'output'].filter(Boolean).join(', ') || '-';
+      return `| ${index + 1} | ${entry.file} | ${entry.folder} | ${run.input ?? '-'} | ${verdictLabel[run.verdict]} | ${edited} |`;
+    })),
+    ''
+  ].join('\n');
+
+  return { json, markdown };
+};
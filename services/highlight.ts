@@ -0,0 +1,157 @@
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+interface Grammar {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  // Quote characters that start a string; Python's triple quotes are handled as block strings.
+  quotes: string[];
+  blockString?: string[];
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const C_KEYWORDS = `auto break case char const continue default do double else enum extern float for goto if
+  inline int long register return short signed sizeof static struct switch typedef union unsigned void volatile while
+  bool true false NULL include define`;
+
+const GRAMMARS: Record<string, Grammar> = {
+  py: {
+    keywords: words(`and as assert async await break class continue def del elif else except False finally for from
+      global if import in is lambda None nonlocal not or pass raise return True try while with yield print self`),
+    lineComment: '#',
+    quotes: ['"', "'"],
+    blockString: ['"""', "'''"]
+  },
+  c: { keywords: words(C_KEYWORDS), lineComment: '//', blockComment: ['/*', '*/'], quotes: ['"', "'"] },
+  cpp: {
+    keywords: words(`${C_KEYWORDS} class namespace using public private protected virtual override template typename new
+      delete this throw try catch nullptr std string vector cout cin endl auto constexpr friend operator`),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  },
+  java: {
+    keywords: words(`abstract boolean break byte case catch char class const continue default do double else enum
+      extends final finally float for if implements import instanceof int interface long new null package private
+      protected public return short static super switch this throw throws try void while true false String var`),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  },
+  js: {
+    keywords: words(`async await break case catch class const continue default delete do else export extends false
+      finally for function if import in instanceof let new null return super switch this throw true try typeof
+      undefined var void while yield of console`),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`']
+  },
+  html: { keywords: words('html head body script style div span DOCTYPE'), blockComment: ['<!--', '-->'], quotes: ['"', "'"] }
+};
+
+// Headers and other extensions that share a grammar.
+const ALIASES: Record<string, string> = { h: 'c', hpp: 'cpp', cc: 'cpp', ts: 'js' };
+
+const WORD = /^[A-Za-z_$][\w$]*/;
+const NUMBER = /^(0x[\da-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/;
+
+/**
+ * Splits source code into coloured tokens, one array per line. Deliberately small: keywords,
+ * strings, comments and numbers are enough for a readable lab record, and no dependency is needed.
+ */
+export const highlightLines = (code: string, language: string): Token[][] => {
+  const grammar = GRAMMARS[ALIASES[language] ?? language];
+  const lines = code.replace(/\t/g, '    ').split(/\r?\n/);
+  if (!grammar) return lines.map(text => [{ text, kind: 'plain' }]);
+
+  // Closing delimiter of a comment or string that continues onto the next line.
+  let openBlock: { close: string; kind: TokenKind } | null = null;
+
+  return lines.map(line => {
+    const tokens: Token[] = [];
+    const push = (text: string, kind: TokenKind) => {
+      if (!text) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.kind === kind) last.text += text;
+      else tokens.push({ text, kind });
+    };
+
+    let i = 0;
+    while (i < line.length) {
+      const rest = line.slice(i);
+
+      if (openBlock) {
+        const end = rest.indexOf(openBlock.close);
+        if (end === -1) {
+          push(rest, openBlock.kind);
+          i = line.length;
+        } else {
+          push(rest.slice(0, end + openBlock.close.length), openBlock.kind);
+          i += end + openBlock.close.length;
+          openBlock = null;
+        }
+        continue;
+      }
+
+      if (grammar.lineComment && rest.startsWith(grammar.lineComment)) {
+        push(rest, 'comment');
+        break;
+      }
+      const blockString = grammar.blockString?.find(q => rest.startsWith(q));
+      if (blockString || (grammar.blockComment && rest.startsWith(grammar.blockComment[0]))) {
+        const [open, close] = blockString ? [blockString, blockString] : grammar.blockComment!;
+        push(open, blockString ? 'string' : 'comment');
+        i += open.length;
+        openBlock = { close, kind: blockString ? 'string' : 'comment' };
+        continue;
+      }
+      if (grammar.quotes.includes(rest[0])) {
+        let end = 1;
+        while (end < rest.length && rest[end] !== rest[0]) end += rest[end] === '\\' ? 2 : 1;
+        push(rest.slice(0, end + 1), 'string');
+        i += end + 1;
+        continue;
+      }
+
+      const word = rest.match(WORD)?.[0];
+      if (word) {
+        push(word, grammar.keywords.has(word) ? 'keyword' : 'plain');
+        i += word.length;
+        continue;
+      }
+      const number = rest.match(NUMBER)?.[0];
+      if (number) {
+        push(number, 'number');
+        i += number.length;
+        continue;
+      }
+
+      push(rest[0], 'plain');
+      i++;
+    }
+    return tokens;
+  });
+};
+
+export interface CodePage {
+  // 1-based number of the first line on this page.
+  firstLine: number;
+  lines: Token[][];
+}
+
+/** Highlights `code` and splits it into pages of at most `linesPerPage` lines. */
+export const paginateCode = (code: string, language: string, linesPerPage: number): CodePage[] => {
+  const lines = highlightLines(code.replace(/\s+$/, ''), language);
+  const size = Math.max(1, linesPerPage);
+  const pages: CodePage[] = [];
+  for (let start = 0; start < lines.length; start += size) {
+    pages.push({ firstLine: start + 1, lines: lines.slice(start, start + size) });
+  }
+  return pages;
+};
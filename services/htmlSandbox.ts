@@ -0,0 +1,95 @@
+import { SourceFile } from '../types';
+
+export interface ConsoleEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+// Every message from a sandboxed page carries this, plus the id of the load it belongs to.
+export const SANDBOX_SOURCE = 'autolab-sandbox';
+
+export type SandboxMessage =
+  | { source: typeof SANDBOX_SOURCE; runId: string; type: 'console'; entry: ConsoleEntry }
+  | { source: typeof SANDBOX_SOURCE; runId: string; type: 'loaded' }
+  | { source: typeof SANDBOX_SOURCE; runId: string; type: 'capture'; blob?: Blob; error?: string };
+
+/**
+ * Injected at the top of every page. Forwards console calls and uncaught errors to the app, and
+ * on request draws the page into a PNG: the frame has an opaque origin, so the app cannot read
+ * its DOM, but the page can serialise itself into an SVG foreignObject and rasterise that.
+ */
+const bridgeScript = (runId: string) => `(() => {
+  const send = message => parent.postMessage({ source: '${SANDBOX_SOURCE}', runId: '${runId}', ...message }, '*');
+  const format = value => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    try { return JSON.stringify(value); } catch { return String(value); }
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+    const original = console[level];
+    console[level] = (...args) => {
+      send({ type: 'console', entry: { level, text: args.map(format).join(' ') } });
+      original.apply(console, args);
+    };
+  });
+  addEventListener('error', event => send({ type: 'console', entry: { level: 'error', text: 'Uncaught ' + (event.error ? format(event.error) : event.message) } }));
+  addEventListener('unhandledrejection', event => send({ type: 'console', entry: { level: 'error', text: 'Uncaught (in promise) ' + format(event.reason) } }));
+  addEventListener('load', () => send({ type: 'loaded' }));
+  addEventListener('message', async event => {
+    if (event.source !== parent || event.data?.type !== 'autolab-capture') return;
+    try {
+      const { width, height, scale } = event.data;
+      const page = document.documentElement.cloneNode(true);
+      page.querySelectorAll('script').forEach(script => script.remove());
+      const xhtml = new XMLSerializer().serializeToString(page);
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + width + '" height="' + height + '">'
+        + '<foreignObject width="100%" height="100%">' + xhtml + '</foreignObject></svg>';
+      const image = new Image();
+      image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+      await image.decode();
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      context.fillStyle = getComputedStyle(document.body).backgroundColor || '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(blob => send({ type: 'capture', blob }), 'image/png');
+    } catch (error) {
+      send({ type: 'capture', error: format(error) });
+    }
+  });
+})();`;
+
+// `./css/site.css` and `css/site.css` both name the uploaded file `css/site.css`.
+const normalizePath = (href: string) => href.trim().replace(/^\.\//, '').split(/[?#]/)[0];
+
+// A `</script>` inside inlined code would end the tag early.
+const escapeScript = (code: string) => code.replace(/<\/(script)/gi, '<\\/$1');
+
+/**
+ * The page as it will load in the sandbox: the bridge first, then the student's HTML with
+ * stylesheets and scripts from the uploaded folder inlined (the frame has no file system to
+ * load them from). Remote URLs are left alone.
+ */
+export const buildSrcdoc = (html: string, files: SourceFile[], runId: string) => {
+  const byPath = new Map(files.map(file => [file.path, file.content]));
+  const resolved = html
+    .replace(/<link\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>/gi, (tag, href: string) => {
+      const css = byPath.get(normalizePath(href));
+      return css !== undefined && /\brel\s*=\s*["']?stylesheet/i.test(tag) ? `<style>\n${css}\n</style>` : tag;
+    })
+    .replace(/<script\b([^>]*)\bsrc\s*=\s*["']([^"']+)["']([^>]*)>\s*<\/script>/gi, (tag, before: string, src: string, after: string) => {
+      const js = byPath.get(normalizePath(src));
+      return js !== undefined ? `<script${before}${after}>\n${escapeScript(js)}\n</script>` : tag;
+    });
+
+  const bridge = `<script>${bridgeScript(runId)}</script>`;
+  // The bridge has to run before any of the page's own scripts (but after the doctype).
+  const opening = [/<head\b[^>]*>/i, /<html\b[^>]*>/i].find(tag => tag.test(resolved));
+  return opening ? resolved.replace(opening, tag => `${tag}${bridge}`) : `${bridge}${resolved}`;
+};
+
+/** Console output as it is stored and graded: one line per entry. */
+export const formatConsole = (entries: ConsoleEntry[]) => entries.map(entry => entry.text).join('\n');
@@ -0,0 +1,58 @@
+import { ImageFormat } from '../types';
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; mimeType: string; extension: string }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' }
+};
+
+const ascii = (data: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...data.subarray(start, start + length));
+
+/** Format of encoded image bytes, judged by their signature; anything unrecognised counts as PNG. */
+export const detectImageFormat = (data: Uint8Array): ImageFormat => {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'jpeg';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WEBP') return 'webp';
+  return 'png';
+};
+
+/** Format of a captured screenshot; blobs without a known type are PNG, like every capture before formats existed. */
+export const blobImageFormat = (blob?: Blob): ImageFormat =>
+  (Object.keys(IMAGE_FORMATS) as ImageFormat[]).find(format => IMAGE_FORMATS[format].mimeType === blob?.type) ?? 'png';
+
+// Start-of-frame markers carry the dimensions of a JPEG; the others (DHT, JPG, DAC) share the range.
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+/** Pixel size read straight from the image header, so it also works outside the browser. */
+export const imageSize = (data: Uint8Array): { width: number; height: number } => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (detectImageFormat(data)) {
+    case 'jpeg': {
+      let offset = 2;
+      while (offset + 9 < data.length) {
+        const marker = data[offset + 1];
+        if (isStartOfFrame(marker)) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        offset += 2 + view.getUint16(offset + 2);
+      }
+      throw new Error('JPEG has no frame header');
+    }
+    case 'webp': {
+      switch (ascii(data, 12, 4)) {
+        case 'VP8 ':
+          return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        case 'VP8L': {
+          const bits = view.getUint32(21, true);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        default:
+          return {
+            width: (view.getUint32(24, true) & 0xffffff) + 1,
+            height: (view.getUint32(26, true) >>> 8) + 1
+          };
+      }
+    }
+    default:
+      // Width and height live at fixed offsets of the IHDR chunk of every PNG.
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+};
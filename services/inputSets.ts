@@ -0,0 +1,130 @@
+import { GradeResult, InputSet, ProgramFile, RunResult, TranscriptChunk, Verification } from '../types';
+
+export interface UploadedText {
+  name: string;
+  dir: string;
+  content: string;
+}
+
+/** One run of a program: either against one of its input sets or, when it has none, with no stdin. */
+export interface RunSlot {
+  key: string;
+  inputId?: string;
+  label?: string;
+  stdin?: string;
+  expectedOutput?: string;
+  output?: string;
+  transcript?: TranscriptChunk[];
+  runResult?: RunResult;
+  grade?: GradeResult;
+  simulated?: boolean;
+  verification?: Verification;
+  originalOutput?: string;
+  imageBlob?: Blob;
+}
+
+// `prog.in`, `prog.2.in`, `prog_2.in`, `prog-2.in` belong to `prog.<ext>`.
+const PROGRAM_INPUT = /^(.+?)(?:[._-](\d+))?\.in$/i;
+// `input.txt`, `input2.txt`, `input_2.txt` apply to every program in the same folder.
+const SHARED_INPUT = /^input(?:[._-]?(\d+))?\.txt$/i;
+// Expected outputs mirror the input names: `prog.2.out` for `prog.2.in`, `expected2.txt` for `input2.txt`.
+const EXPECTED_OUTPUT = /\.out$|^expected(?:[._-]?\d+)?\.txt$/i;
+
+const stripExt = (fileName: string) => fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+
+export const isInputFile = (fileName: string) => PROGRAM_INPUT.test(fileName) || SHARED_INPUT.test(fileName);
+
+export const isExpectedOutputFile = (fileName: string) => EXPECTED_OUTPUT.test(fileName);
+
+const expectedNameFor = (inputName: string) => inputName.replace(/\.in$/i, '.out').replace(/^input/i, 'expected');
+
+const findSibling = (name: string, siblings: UploadedText[]) =>
+  siblings.find(file => file.name.toLowerCase() === name.toLowerCase())?.content;
+
+export const createInputSet = (name: string, stdin = '', expectedOutput?: string): InputSet => ({
+  id: Math.random().toString(36).substring(7),
+  name,
+  stdin,
+  expectedOutput
+});
+
+/**
+ * Picks the input files that belong to a program from the rest of an upload.
+ * Program-specific `*.in` files win; shared `input*.txt` files are used only when there are none.
+ */
+export const matchInputSets = (program: UploadedText, candidates: UploadedText[]): InputSet[] => {
+  const base = stripExt(program.name);
+  const sameFolder = candidates.filter(c => c.dir === program.dir);
+
+  const byOrder = (a: { order: number; file: UploadedText }, b: { order: number; file: UploadedText }) =>
+    a.order - b.order || a.file.name.localeCompare(b.file.name);
+
+  const own = sameFolder
+    .map(file => {
+      const match = PROGRAM_INPUT.exec(file.name);
+      if (!match) return null;
+      if (stripExt(file.name) === base) return { order: 0, file };
+      if (match[1] === base && match[2]) return { order: parseInt(match[2]), file };
+      return null;
+    })
+    .filter((m): m is { order: number; file: UploadedText } => !!m)
+    .sort(byOrder);
+
+  const chosen = own.length > 0
+    ? own
+    : sameFolder
+        .map(file => {
+          const match = SHARED_INPUT.exec(file.name);
+          return match ? { order: match[1] ? parseInt(match[1]) : 0, file } : null;
+        })
+        .filter((m): m is { order: number; file: UploadedText } => !!m)
+        .sort(byOrder);
+
+  return chosen.map(({ file }) => createInputSet(file.name, file.content, findSibling(expectedNameFor(file.name), sameFolder)));
+};
+
+/** Expected output for a program that runs without input sets: `prog.out`, else a shared `expected.txt`. */
+export const matchExpectedOutput = (program: UploadedText, candidates: UploadedText[]): string | undefined => {
+  const sameFolder = candidates.filter(c => c.dir === program.dir);
+  return findSibling(`${stripExt(program.name)}.out`, sameFolder) ?? findSibling('expected.txt', sameFolder);
+};
+
+export const getRunSlots = (file: ProgramFile): RunSlot[] => {
+  if (file.inputs && file.inputs.length > 0) {
+    return file.inputs.map(input => ({
+      key: `${file.id}:${input.id}`,
+      inputId: input.id,
+      label: input.name,
+      stdin: input.stdin,
+      expectedOutput: input.expectedOutput,
+      output: input.output,
+      transcript: input.transcript,
+      runResult: input.runResult,
+      grade: input.grade,
+      simulated: input.simulated,
+      verification: input.verification,
+      originalOutput: input.originalOutput,
+      imageBlob: input.imageBlob
+    }));
+  }
+  return [{
+    key: file.id,
+    expectedOutput: file.expectedOutput,
+    output: file.output,
+    runResult: file.runResult,
+    grade: file.grade,
+    simulated: file.simulated,
+    verification: file.verification,
+    originalOutput: file.originalOutput,
+    imageBlob: file.imageBlob
+  }];
+};
+
+export const hasSnapshot = (file: ProgramFile) => getRunSlots(file).some(slot => !!slot.imageBlob);
+
+/** Screenshot file name for a run: `[name]_output.png` for a single run, `[name]_output_1.png`... otherwise. */
+export const snapshotFileName = (screenshotName: string, slotIndex: number, slotCount: number, extension = 'png') =>
+  slotCount > 1 ? `${screenshotName}_${slotIndex + 1}.${extension}` : `${screenshotName}.${extension}`;
+
+/** Session/ref key of a file's `page`-th source code snapshot. */
+export const codeImageKey = (fileId: string, page: number) => `${fileId}:code:${page}`;
@@ -0,0 +1,114 @@
+import { BatchSettings } from '../types';
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = { concurrency: 3, requestsPerMinute: 10 };
+
+export type QueueState = 'idle' | 'running' | 'paused' | 'cancelling';
+
+export interface QueueProgress {
+  state: QueueState;
+  // Counts for the current batch; they reset when a new batch starts after the queue went idle.
+  total: number;
+  done: number;
+  queuedIds: string[];
+  activeIds: string[];
+  // Estimated time left, once at least one job has finished.
+  etaMs: number | null;
+}
+
+export interface JobQueue {
+  enqueue(ids: string[]): void;
+  pause(): void;
+  resume(): void;
+  // Drops everything that has not started; running jobs are left to finish.
+  cancel(): void;
+  setConcurrency(concurrency: number): void;
+}
+
+export const IDLE_PROGRESS: QueueProgress = { state: 'idle', total: 0, done: 0, queuedIds: [], activeIds: [], etaMs: null };
+
+/**
+ * Runs jobs (one per file id) with at most `concurrency` at a time. Failures are logged and
+ * counted as done: jobs report their own errors, the queue only keeps things moving.
+ */
+export const createJobQueue = (
+  run: (id: string) => Promise<void>,
+  onProgress: (progress: QueueProgress) => void,
+  concurrency = DEFAULT_BATCH_SETTINGS.concurrency
+): JobQueue => {
+  const queued: string[] = [];
+  const active = new Set<string>();
+  let limit = Math.max(1, concurrency);
+  let paused = false;
+  let cancelling = false;
+  let total = 0;
+  let done = 0;
+  let busyMs = 0;
+
+  const report = () => {
+    const state: QueueState = active.size === 0 && queued.length === 0
+      ? 'idle'
+      : cancelling ? 'cancelling' : paused ? 'paused' : 'running';
+    // Jobs run `limit` at a time, so the remaining work is spread over that many lanes.
+    const remaining = queued.length + active.size;
+    const etaMs = done > 0 ? Math.round((busyMs / done) * remaining / Math.min(limit, Math.max(1, remaining))) : null;
+    onProgress({ state, total, done, queuedIds: [...queued], activeIds: [...active], etaMs });
+  };
+
+  const pump = () => {
+    while (!paused && active.size < limit && queued.length > 0) {
+      const id = queued.shift()!;
+      const started = Date.now();
+      active.add(id);
+      run(id)
+        .catch(err => console.error(`Job ${id} failed:`, err))
+        .finally(() => {
+          active.delete(id);
+          done++;
+          busyMs += Date.now() - started;
+          if (active.size === 0) cancelling = false;
+          pump();
+        });
+    }
+    report();
+  };
+
+  return {
+    enqueue(ids) {
+      if (active.size === 0 && queued.length === 0) {
+        paused = false;
+        total = 0;
+        done = 0;
+        busyMs = 0;
+      }
+      const fresh = ids.filter(id => !active.has(id) && !queued.includes(id));
+      queued.push(...fresh);
+      total += fresh.length;
+      pump();
+    },
+    pause() {
+      paused = true;
+      report();
+    },
+    resume() {
+      paused = false;
+      pump();
+    },
+    cancel() {
+      total -= queued.length;
+      queued.length = 0;
+      paused = false;
+      cancelling = active.size > 0;
+      report();
+    },
+    setConcurrency(value) {
+      limit = Math.max(1, value);
+      pump();
+    }
+  };
+};
+
+/** `1m 05s`, `42s`; for the progress display. */
+export const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
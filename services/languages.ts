@@ -0,0 +1,38 @@
+import { LanguageDefinition, LANGUAGES } from '../constants';
+import { ProgramFile } from '../types';
+import { notebookSource, parseNotebook } from './notebook';
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+/** Looks a language up by id or alias (`py`, `python`, `c++`...); case-insensitive. */
+export const findLanguage = (idOrAlias: string): LanguageDefinition | undefined => {
+  const key = idOrAlias.toLowerCase();
+  return LANGUAGES.find(language => language.id === key || language.aliases.includes(key));
+};
+
+/** The language of a file, by extension; undefined for file types AutoLab does not handle. */
+export const languageForFile = (fileName: string): LanguageDefinition | undefined => {
+  const extension = extensionOf(fileName);
+  return LANGUAGES.find(language => language.extensions.includes(extension));
+};
+
+/** Command shown in the terminal snapshot, e.g. `python3 prog.py`. */
+export const runCommandFor = (file: Pick<ProgramFile, 'name' | 'language'>) => {
+  const name = file.name.includes('.') ? file.name.slice(0, file.name.lastIndexOf('.')) : file.name;
+  const template = findLanguage(file.language)?.runCommand ?? 'run [file]';
+  return template.replace(/\[file\]/g, file.name).replace(/\[name\]/g, name);
+};
+
+/**
+ * The code to show for a file and the language to highlight it as. Same as the file itself,
+ * except for notebooks, whose JSON is replaced by their code cells.
+ */
+export const codeView = (file: Pick<ProgramFile, 'content' | 'language'>): { code: string; language: string } => {
+  if (findLanguage(file.language)?.kind !== 'notebook') return { code: file.content, language: file.language };
+  try {
+    const notebook = parseNotebook(file.content);
+    return { code: notebookSource(notebook), language: findLanguage(notebook.language)?.id ?? 'py' };
+  } catch {
+    return { code: file.content, language: 'text' };
+  }
+};
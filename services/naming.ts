@@ -0,0 +1,170 @@
+import { ArchiveLayout, NamingSettings, ProgramFile, StudentInfo } from '../types';
+import { programFolder } from './programGroups';
+
+export type NamingContext = NamingSettings & { student: StudentInfo };
+
+// `[token]` with optional `:modifier`s, e.g. `[index:3]`, `[name:upper]`, `[date:DDMMYYYY]`.
+const PLACEHOLDER = /\[(\w+)((?::[^\]:]+)*)\]/g;
+
+const FILE_TOKENS = ['name', 'ext', 'full', 'folder', 'index'];
+const SUBMISSION_TOKENS = ['student', 'roll', 'course', 'lab', 'date'];
+
+export const PLACEHOLDER_HELP: { token: string; description: string }[] = [
+  { token: '[index]', description: 'Serial ID' },
+  { token: '[index:3]', description: 'Zero-padded (001)' },
+  { token: '[name]', description: 'File without ext' },
+  { token: '[ext]', description: 'Extension only' },
+  { token: '[full]', description: 'Original filename' },
+  { token: '[folder]', description: 'Uploaded subfolder' },
+  { token: '[student]', description: 'Student name' },
+  { token: '[roll]', description: 'Roll number' },
+  { token: '[course]', description: 'Course code' },
+  { token: '[lab]', description: 'Lab number' },
+  { token: '[date]', description: 'Today (2024-03-15)' },
+  { token: '[date:DDMMYY]', description: 'Custom date format' },
+  { token: '[name:upper]', description: 'Also :lower, :title' }
+];
+
+const pad2 = (n: number) => n.toString().padStart(2, '0');
+
+const formatDate = (date: Date, format = 'YYYY-MM-DD') =>
+  format
+    .replace(/YYYY/g, date.getFullYear().toString())
+    .replace(/YY/g, date.getFullYear().toString().slice(-2))
+    .replace(/MM/g, pad2(date.getMonth() + 1))
+    .replace(/DD/g, pad2(date.getDate()));
+
+const applyModifier = (value: string, modifier: string) => {
+  if (/^\d+$/.test(modifier)) return value.padStart(parseInt(modifier, 10), '0');
+  switch (modifier) {
+    case 'upper': return value.toUpperCase();
+    case 'lower': return value.toLowerCase();
+    case 'title': return value.replace(/\b\w/g, c => c.toUpperCase());
+    default: return value;
+  }
+};
+
+/**
+ * Expands every known placeholder; unknown ones are left untouched (see `checkNames`).
+ * `file` and `index` are omitted for the root folder pattern, which only knows submission tokens.
+ */
+export const expandPattern = (
+  pattern: string,
+  context: NamingContext,
+  file?: Pick<ProgramFile, 'name' | 'path'>,
+  index = 0,
+  now = new Date()
+) => {
+  // Remove [index] and common separators following it
+  const source = context.isNumberingEnabled ? pattern : pattern.replace(/\[index(?::[^\]:]+)*\][_\-\s]?/g, '');
+
+  return source.replace(PLACEHOLDER, (match, token: string, modifierText: string) => {
+    const modifiers = modifierText.split(':').filter(Boolean);
+    let value: string | undefined;
+    switch (token) {
+      case 'name': value = file && (file.name.substring(0, file.name.lastIndexOf('.')) || file.name); break;
+      case 'ext': value = file && (file.name.split('.').pop() || ''); break;
+      case 'full': value = file?.name; break;
+      case 'folder': value = file && programFolder(file); break;
+      case 'index': value = file && (context.startIndex + index).toString(); break;
+      case 'student': value = context.student.studentName.trim(); break;
+      case 'roll': value = context.student.rollNumber.trim(); break;
+      case 'course': value = context.student.course.trim(); break;
+      case 'lab': value = context.student.labNumber.trim(); break;
+      // The date modifier is a format, not a transform.
+      case 'date': return formatDate(now, modifiers[0]);
+    }
+    return value === undefined ? match : modifiers.reduce(applyModifier, value);
+  });
+};
+
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/** Makes a single path segment safe on Windows, macOS and Linux. */
+export const sanitizeFileName = (name: string) => {
+  const cleaned = name
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/g, '_')
+    .replace(/[. ]+$/, '')
+    .trim();
+  return WINDOWS_RESERVED.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+/** What two names or paths are compared by: Windows and macOS file systems ignore case. */
+export const nameKey = (name: string) => name.toLowerCase();
+
+/** Folder or screenshot name for the program at `index` in the batch. */
+export const formatName = (pattern: string, file: Pick<ProgramFile, 'name' | 'path'>, index: number, context: NamingContext) =>
+  sanitizeFileName(expandPattern(pattern, context, file, index));
+
+/** Name of the top-level folder wrapping the archive; empty when there is none. */
+export const formatRootName = (pattern: string, context: NamingContext) =>
+  pattern.trim() ? sanitizeFileName(expandPattern(pattern, context)) : '';
+
+export interface NameCheck {
+  file: string;
+  folder: string;
+  screenshot: string;
+  problems: string[];
+}
+
+const unknownPlaceholders = (pattern: string, allowed: string[]) =>
+  [...pattern.matchAll(PLACEHOLDER)].filter(m => !allowed.includes(m[1])).map(m => m[0]);
+
+const patternProblems = (label: string, pattern: string, raw: string, allowed: string[]) => {
+  const problems = unknownPlaceholders(pattern, allowed).map(token => `${label}: unknown placeholder ${token}`);
+  const clean = sanitizeFileName(raw);
+  if (!clean) problems.push(`${label} is empty`);
+  else if (clean !== raw) problems.push(`${label} "${raw}" contains characters that are not allowed in file names`);
+  return problems;
+};
+
+/**
+ * Resolves the folder and screenshot name of every program and reports what would go wrong:
+ * unknown placeholders, empty or invalid names, and names that collide in the chosen layout.
+ */
+export const checkNames = (
+  files: Pick<ProgramFile, 'name' | 'path'>[],
+  context: NamingContext,
+  layout: ArchiveLayout,
+  includeCodePattern = false
+): NameCheck[] => {
+  const checks = files.map((file, index) => {
+    const rawFolder = expandPattern(context.folderPattern, context, file, index);
+    const rawScreenshot = expandPattern(context.screenshotPattern, context, file, index);
+    const allowed = [...FILE_TOKENS, ...SUBMISSION_TOKENS];
+    return {
+      file: file.name,
+      folder: sanitizeFileName(rawFolder),
+      screenshot: sanitizeFileName(rawScreenshot),
+      problems: [
+        ...(layout === 'per-program' ? patternProblems('Folder', context.folderPattern, rawFolder, allowed) : []),
+        ...patternProblems('Screenshot', context.screenshotPattern, rawScreenshot, allowed),
+        ...(includeCodePattern
+          ? patternProblems('Code snapshot', context.codePattern, expandPattern(context.codePattern, context, file, index), allowed)
+          : [])
+      ]
+    };
+  });
+
+  // Programs share a folder unless each gets its own, so then screenshot names have to be unique too.
+  const countBy = (key: (check: NameCheck) => string) => {
+    const counts = new Map<string, number>();
+    checks.forEach(check => counts.set(key(check), (counts.get(key(check)) ?? 0) + 1));
+    return (check: NameCheck) => counts.get(key(check))! > 1;
+  };
+  const isDuplicate = layout === 'per-program'
+    ? countBy(check => nameKey(check.folder))
+    : countBy(check => nameKey(check.screenshot));
+  checks.forEach(check => {
+    if (isDuplicate(check)) {
+      check.problems.push(layout === 'per-program'
+        ? `Folder "${check.folder}" is used by more than one program`
+        : `Screenshot "${check.screenshot}" is used by more than one program`);
+    }
+  });
+  return checks;
+};
+
+/** Problems with the root folder pattern, which only supports submission placeholders. */
+export const checkRootPattern = (pattern: string, context: NamingContext) =>
+  pattern.trim() ? patternProblems('Root folder', pattern, expandPattern(pattern, context), SUBMISSION_TOKENS) : [];
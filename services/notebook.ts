@@ -0,0 +1,87 @@
+// Just enough of the Jupyter notebook format (nbformat 4) to show what a notebook already printed.
+interface RawOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface RawCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  source: string | string[];
+  execution_count?: number | null;
+  outputs?: RawOutput[];
+}
+
+export interface NotebookOutput {
+  text: string;
+  isError: boolean;
+  // data: URL of a PNG/JPEG plot, when the output has one.
+  image?: string;
+}
+
+export interface NotebookCell {
+  executionCount: number | null;
+  source: string;
+  outputs: NotebookOutput[];
+}
+
+export interface Notebook {
+  // Kernel language as written in the metadata, e.g. `python`; empty when unknown.
+  language: string;
+  cells: NotebookCell[];
+}
+
+const joinText = (text: string | string[] = '') => Array.isArray(text) ? text.join('') : text;
+
+// Tracebacks carry terminal colour codes.
+const stripAnsi = (text: string) => text.replace(/\u001b\[[\d;]*m/g, '');
+
+const toOutput = (output: RawOutput): NotebookOutput => {
+  switch (output.output_type) {
+    case 'stream':
+      return { text: joinText(output.text), isError: false };
+    case 'error':
+      return { text: stripAnsi((output.traceback ?? [`${output.ename}: ${output.evalue}`]).join('\n')), isError: true };
+    default: {
+      const data = output.data ?? {};
+      const imageType = ['image/png', 'image/jpeg'].find(type => data[type]);
+      return {
+        text: joinText(data['text/plain']),
+        isError: false,
+        image: imageType ? `data:${imageType};base64,${joinText(data[imageType]).replace(/\s/g, '')}` : undefined
+      };
+    }
+  }
+};
+
+/** Reads the code cells of a notebook with their saved outputs; throws on anything that isn't notebook JSON. */
+export const parseNotebook = (content: string): Notebook => {
+  const raw = JSON.parse(content);
+  if (!Array.isArray(raw?.cells)) throw new Error('Not a Jupyter notebook: missing "cells"');
+  return {
+    language: raw.metadata?.kernelspec?.language ?? raw.metadata?.language_info?.name ?? '',
+    cells: (raw.cells as RawCell[])
+      .filter(cell => cell.cell_type === 'code')
+      .map(cell => ({
+        executionCount: cell.execution_count ?? null,
+        source: joinText(cell.source),
+        outputs: (cell.outputs ?? []).map(toOutput)
+      }))
+  };
+};
+
+/** The code cells as one listing, each headed by its `In [n]:` label. */
+export const notebookSource = (notebook: Notebook) =>
+  notebook.cells.map(cell => `# In [${cell.executionCount ?? ' '}]:\n${cell.source.trimEnd()}`).join('\n\n');
+
+/** Everything the cells printed, in order; this is what gets graded. */
+export const notebookOutput = (notebook: Notebook) =>
+  notebook.cells
+    .flatMap(cell => cell.outputs.map(output => output.text))
+    .filter(Boolean)
+    .map(text => text.endsWith('\n') ? text : `${text}\n`)
+    .join('')
+    .trimEnd();
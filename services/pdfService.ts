@@ -0,0 +1,182 @@
+import { jsPDF } from 'jspdf';
+import { PackagingOptions, ProgramFile } from '../types';
+import { getRunSlots } from './inputSets';
+import { highlightLines, TokenKind } from './highlight';
+import { programSources } from './programGroups';
+import { blobImageFormat } from './imageFormat';
+
+type Rgb = [number, number, number];
+
+const PAGE = { width: 595.28, height: 841.89, margin: 50 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+const CODE_FONT_SIZE = 8.5;
+const CODE_LINE_HEIGHT = 11;
+const TOC_LINE_HEIGHT = 18;
+const TOC_TOP = 110;
+
+const TOKEN_COLORS: Record<TokenKind, Rgb> = {
+  plain: [30, 41, 59],
+  keyword: [79, 70, 229],
+  string: [22, 163, 74],
+  comment: [148, 163, 184],
+  number: [217, 119, 6]
+};
+const MUTED: Rgb = [100, 116, 139];
+const TEXT: Rgb = [15, 23, 42];
+
+/**
+ * Builds a single "lab record" PDF: cover page, table of contents, then every program with its
+ * highlighted source and captured output. Everything happens in the browser/webview.
+ */
+export const generateLabRecordPdf = async (files: ProgramFile[], options: PackagingOptions): Promise<Blob> => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  let y = PAGE.margin;
+
+  const setColor = (color: Rgb) => doc.setTextColor(color[0], color[1], color[2]);
+  const newPage = () => {
+    doc.addPage();
+    y = PAGE.margin;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - PAGE.margin) newPage();
+  };
+  const heading = (text: string, size: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(size);
+    setColor(TEXT);
+    ensureSpace(size * 1.6);
+    y += size;
+    doc.text(text, PAGE.margin, y);
+    y += size * 0.6;
+  };
+
+  // Cover page
+  const { student } = options;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(30);
+  setColor(TEXT);
+  doc.text('Lab Record', PAGE.width / 2, 260, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  setColor(MUTED);
+  const coverLines = [
+    [student.course, student.labNumber && `Lab ${student.labNumber}`].filter(Boolean).join(' · '),
+    student.studentName,
+    student.rollNumber,
+    `${files.length} program${files.length === 1 ? '' : 's'} · ${new Date().toLocaleDateString()}`
+  ].filter(Boolean);
+  coverLines.forEach((line, i) => doc.text(line, PAGE.width / 2, 300 + i * 22, { align: 'center' }));
+
+  // Table of contents; page numbers are filled in once the programs are laid out.
+  const tocPerPage = Math.floor((PAGE.height - TOC_TOP - PAGE.margin) / TOC_LINE_HEIGHT);
+  const tocPageCount = Math.max(1, Math.ceil(files.length / tocPerPage));
+  const firstTocPage = doc.getNumberOfPages() + 1;
+  for (let i = 0; i < tocPageCount; i++) doc.addPage();
+
+  const titles = files.map((file, index) => `${options.isNumberingEnabled ? `${options.startIndex + index}. ` : ''}${file.name}`);
+  const startPages: number[] = [];
+
+  for (const [index, file] of files.entries()) {
+    newPage();
+    startPages.push(doc.getNumberOfPages());
+    heading(titles[index], 18);
+
+    // Source with line numbers
+    heading('Source Code', 11);
+    doc.setFont('courier', 'normal');
+    doc.setFontSize(CODE_FONT_SIZE);
+    const charWidth = doc.getTextWidth('M');
+    const gutter = charWidth * 5;
+    const maxChars = Math.floor((CONTENT_WIDTH - gutter) / charWidth);
+    const sources = programSources(file);
+    for (const [sourceIndex, source] of sources.entries()) {
+      // Multi-file programs get each file under its own path.
+      if (sources.length > 1) {
+        heading(source.path, 10);
+        doc.setFont('courier', 'normal');
+        doc.setFontSize(CODE_FONT_SIZE);
+      }
+      highlightLines(source.content, source.language).forEach((tokens, lineIndex) => {
+        // Long lines wrap onto continuation rows without a line number.
+        let column = 0;
+        ensureSpace(CODE_LINE_HEIGHT);
+        y += CODE_LINE_HEIGHT;
+        setColor(TOKEN_COLORS.comment);
+        doc.text(String(lineIndex + 1).padStart(4), PAGE.margin, y);
+        for (const token of tokens) {
+          setColor(TOKEN_COLORS[token.kind]);
+          let text = token.text;
+          while (text) {
+            if (column >= maxChars) {
+              ensureSpace(CODE_LINE_HEIGHT);
+              y += CODE_LINE_HEIGHT;
+              column = 0;
+            }
+            const piece = text.slice(0, maxChars - column);
+            doc.text(piece, PAGE.margin + gutter + column * charWidth, y);
+            column += piece.length;
+            text = text.slice(piece.length);
+          }
+        }
+      });
+      if (sourceIndex < sources.length - 1) y += CODE_LINE_HEIGHT;
+    }
+    y += CODE_LINE_HEIGHT;
+
+    // Output, one block per input set
+    const slots = getRunSlots(file);
+    for (const slot of slots) {
+      heading(slot.label ? `Output (${slot.label})` : 'Output', 11);
+      if (slot.imageBlob) {
+        const data = new Uint8Array(await slot.imageBlob.arrayBuffer());
+        const { width, height } = doc.getImageProperties(data);
+        const scale = Math.min(1, CONTENT_WIDTH / width, (PAGE.height - 2 * PAGE.margin) / height);
+        ensureSpace(height * scale);
+        doc.addImage(data, blobImageFormat(slot.imageBlob).toUpperCase(), PAGE.margin, y, width * scale, height * scale);
+        y += height * scale + 12;
+      } else {
+        doc.setFont('courier', 'normal');
+        doc.setFontSize(CODE_FONT_SIZE);
+        setColor(slot.output ? TOKEN_COLORS.plain : MUTED);
+        const lines = doc.splitTextToSize(slot.output ?? 'Not run yet.', CONTENT_WIDTH) as string[];
+        for (const line of lines) {
+          ensureSpace(CODE_LINE_HEIGHT);
+          y += CODE_LINE_HEIGHT;
+          doc.text(line, PAGE.margin, y);
+        }
+        y += 12;
+      }
+    }
+  }
+
+  // Fill in the table of contents now that every program's page is known
+  titles.forEach((title, index) => {
+    const page = firstTocPage + Math.floor(index / tocPerPage);
+    doc.setPage(page);
+    if (index % tocPerPage === 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(20);
+      setColor(TEXT);
+      doc.text('Contents', PAGE.margin, PAGE.margin + 20);
+    }
+    const rowY = TOC_TOP + (index % tocPerPage) * TOC_LINE_HEIGHT;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    setColor(TEXT);
+    doc.text(title, PAGE.margin, rowY, { maxWidth: CONTENT_WIDTH - 40 });
+    doc.text(String(startPages[index]), PAGE.width - PAGE.margin, rowY, { align: 'right' });
+    doc.link(PAGE.margin, rowY - 11, CONTENT_WIDTH, TOC_LINE_HEIGHT, { pageNumber: startPages[index] });
+  });
+
+  // Page numbers, except on the cover
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    setColor(MUTED);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE.width / 2, PAGE.height - 25, { align: 'center' });
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,39 @@
+import { PromptTemplates, SnapshotStyle, StudentInfo } from '../types';
+import { isVsCodeWebview, notifyHost, requestHost } from './vscodeBridge';
+
+const STORAGE_KEY = 'autolab.profile';
+const SNAPSHOT_STYLE_KEY = 'autolab.snapshotStyle';
+const PROMPT_TEMPLATES_KEY = 'autolab.promptTemplates';
+
+// Preferences outlive sessions: VS Code keeps them in globalState, the browser in localStorage.
+const loadPreference = async <T>(hostRequest: string, storageKey: string): Promise<Partial<T> | null> => {
+  try {
+    if (isVsCodeWebview()) return await requestHost<Partial<T> | null>(hostRequest);
+    const stored = localStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error(`Could not load ${storageKey}:`, err);
+    return null;
+  }
+};
+
+const savePreference = (hostNotification: string, storageKey: string, value: unknown) => {
+  if (isVsCodeWebview()) {
+    notifyHost(hostNotification, value);
+  } else {
+    localStorage.setItem(storageKey, JSON.stringify(value));
+  }
+};
+
+export const loadStudentInfo = () => loadPreference<StudentInfo>('loadProfile', STORAGE_KEY);
+
+export const saveStudentInfo = (info: StudentInfo) => savePreference('saveProfile', STORAGE_KEY, info);
+
+export const loadSnapshotStyle = () => loadPreference<SnapshotStyle>('loadSnapshotStyle', SNAPSHOT_STYLE_KEY);
+
+export const saveSnapshotStyle = (style: SnapshotStyle) => savePreference('saveSnapshotStyle', SNAPSHOT_STYLE_KEY, style);
+
+// In VS Code these come from settings / .autolab.json rather than globalState (see promptTemplates.ts there).
+export const loadPromptTemplates = () => loadPreference<PromptTemplates>('loadPromptTemplates', PROMPT_TEMPLATES_KEY);
+
+export const savePromptTemplates = (templates: PromptTemplates) => savePreference('savePromptTemplates', PROMPT_TEMPLATES_KEY, templates);
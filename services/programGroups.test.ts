@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { UploadedText } from './inputSets';
+import { groupPrograms, toSourceFiles } from './programGroups';
+import { createProgramFiles } from './uploadService';
+
+const upload = (path: string, content = ''): UploadedText => {
+  const parts = path.split('/');
+  return { name: parts.pop()!, dir: parts.join('/'), content };
+};
+
+const pathOf = (file: UploadedText) => file.dir ? `${file.dir}/${file.name}` : file.name;
+
+// Each program as its entry path followed by the paths of its other files.
+const grouped = (files: UploadedText[]) =>
+  groupPrograms(files).map(({ entry, support }) => [pathOf(entry), ...support.map(pathOf)]);
+
+describe('groupPrograms', () => {
+  it('keeps programs in different folders apart and gives each its own headers', () => {
+    expect(grouped([
+      upload('Q1/main.cpp', 'int main() {}'),
+      upload('Q1/util.h'),
+      upload('Q2/main.cpp', 'int main() {}')
+    ])).toEqual([['Q1/main.cpp', 'Q1/util.h'], ['Q2/main.cpp']]);
+  });
+
+  it('puts Python modules into the program that imports them', () => {
+    expect(grouped([
+      upload('lab/main.py', 'import helper\nfrom shapes.circle import area\nfrom . import config\n'),
+      upload('lab/helper.py', 'def greet(): pass'),
+      upload('lab/shapes/__init__.py'),
+      upload('lab/shapes/circle.py', 'from .util import PI'),
+      upload('lab/shapes/util.py', 'PI = 3.14'),
+      upload('lab/config.py'),
+      upload('lab/other.py', 'print("alone")')
+    ])).toEqual([
+      ['lab/main.py', 'lab/helper.py', 'lab/shapes/__init__.py', 'lab/shapes/circle.py', 'lab/shapes/util.py', 'lab/config.py'],
+      ['lab/other.py']
+    ]);
+  });
+
+  it('keeps an imported Python module with a __main__ block as a program of its own', () => {
+    expect(grouped([
+      upload('main.py', 'from stats import mean'),
+      upload('stats.py', 'def mean(xs): pass\n\nif __name__ == "__main__":\n    print(mean([1]))\n')
+    ])).toEqual([['main.py', 'stats.py'], ['stats.py']]);
+  });
+
+  it('follows require and import in JavaScript and require_relative in Ruby', () => {
+    const files = [
+      upload('js/app.js', "const math = require('./lib/math');\nimport { log } from '../shared/log.js';"),
+      upload('js/lib/math.js', "const { round } = require('../util');"),
+      upload('js/util.js'),
+      upload('shared/log.js'),
+      upload('rb/main.rb', "require_relative 'lib/helpers'"),
+      upload('rb/lib/helpers.rb'),
+      upload('rb/standalone.rb', "require 'json'")
+    ];
+    expect(grouped(files)).toEqual([
+      ['js/app.js', 'js/lib/math.js', 'js/util.js'],
+      ['shared/log.js'],
+      ['rb/main.rb', 'rb/lib/helpers.rb'],
+      ['rb/standalone.rb']
+    ]);
+    // Relative to the entry's folder, as the runner and the ZIP place them.
+    expect(groupPrograms(files).map(group => toSourceFiles(group).map(source => source.path)))
+      .toEqual([['lib/math.js', 'util.js'], [], ['lib/helpers.rb'], []]);
+  });
+
+  it('leaves modules outside the importing program\'s folder out of it', () => {
+    const files = [upload('lab/sub/main.py', 'from .. import util\nfrom . import steps'), upload('lab/sub/steps.py'), upload('lab/util.py')];
+    expect(grouped(files)).toEqual([['lab/sub/main.py', 'lab/sub/steps.py'], ['lab/util.py']]);
+    expect(toSourceFiles(groupPrograms(files)[0])).toEqual([{ path: 'steps.py', content: '' }]);
+  });
+
+  it('leaves modules that only import each other as programs', () => {
+    expect(grouped([
+      upload('a.py', 'import b'),
+      upload('b.py', 'import a')
+    ])).toEqual([['a.py', 'b.py'], ['b.py', 'a.py']]);
+  });
+
+  it('ignores imports that leave the upload', () => {
+    expect(grouped([upload('main.py', 'from ... import secrets'), upload('secrets.py')]))
+      .toEqual([['main.py'], ['secrets.py']]);
+  });
+});
+
+describe('createProgramFiles', () => {
+  it('skips headers that no program uses', () => {
+    const { programs, skipped } = createProgramFiles([
+      upload('Q1/main.c', 'int main() {}'),
+      upload('Q1/list.h'),
+      upload('notes/list.h')
+    ]);
+
+    expect(programs.map(program => [program.path, program.sources?.map(source => source.path)])).toEqual([['Q1/main.c', ['list.h']]]);
+    expect(skipped).toEqual([{ path: 'notes/list.h', reason: 'header without a program that uses it' }]);
+  });
+});
@@ -0,0 +1,206 @@
+import { ProgramFile, SourceFile } from '../types';
+import { UploadedText } from './inputSets';
+import { codeView, languageForFile } from './languages';
+
+/** An uploaded program: its entry file plus the files that belong to it. */
+export interface ProgramGroup {
+  entry: UploadedText;
+  support: UploadedText[];
+}
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+// Languages whose programs commonly span several files. Only files with a main() are run; the
+// others (headers, helper classes, extra translation units) are built into the program next to them.
+interface ProjectFamily {
+  extensions: string[];
+  isEntry: (file: UploadedText) => boolean;
+  // Narrows which entries a non-entry file may join; by default any in the owning folder.
+  belongsTo?: (file: UploadedText, entry: UploadedText) => boolean;
+  // Never programs of their own: left out of the upload when no program above them takes them.
+  supportOnly?: string[];
+}
+
+const FAMILIES: ProjectFamily[] = [
+  {
+    extensions: ['c', 'cpp', 'cc', 'cxx', 'h', 'hpp', 'hh'],
+    isEntry: file => ['c', 'cpp', 'cc', 'cxx'].includes(extensionOf(file.name)) && /\bmain\s*\(/.test(file.content),
+    supportOnly: ['h', 'hpp', 'hh']
+  },
+  {
+    extensions: ['java'],
+    isEntry: file => /\bstatic\s+void\s+main\s*\(/.test(file.content)
+  },
+  { extensions: ['kt'], isEntry: file => /\bfun\s+main\s*\(/.test(file.content) },
+  { extensions: ['go'], isEntry: file => /\bfunc\s+main\s*\(/.test(file.content) },
+  { extensions: ['rs'], isEntry: file => /\bfn\s+main\s*\(/.test(file.content) },
+  {
+    // Pages take the stylesheets and scripts they link to; other scripts stay Node programs.
+    extensions: ['html', 'htm', 'css', 'js'],
+    isEntry: file => ['html', 'htm'].includes(extensionOf(file.name)),
+    belongsTo: (file, entry) => entry.content.includes(relativePath(file, entry.dir))
+  }
+];
+
+const familyOf = (name: string) => FAMILIES.find(family => family.extensions.includes(extensionOf(name)));
+
+const isWithin = (dir: string, ancestor: string) => ancestor === '' || dir === ancestor || dir.startsWith(`${ancestor}/`);
+
+const filePath = (file: UploadedText) => file.dir ? `${file.dir}/${file.name}` : file.name;
+
+/** Joins a relative path onto `dir`, resolving `.` and `..`; undefined when it leaves the upload. */
+const resolvePath = (dir: string, relative: string) => {
+  const segments: string[] = dir ? dir.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') {
+      if (segments.length === 0) return undefined;
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+};
+
+// `pkg.mod` (or `..mod` relative to the importing file) as the files it may be, plus the
+// `__init__.py` of each package on the way, which Python runs first.
+const pythonModulePaths = (module: string) => {
+  const dots = /^\.*/.exec(module)![0].length;
+  const parts = module.slice(dots).split('.').filter(Boolean);
+  const up = Array(Math.max(dots - 1, 0)).fill('..');
+  const base = [...up, ...parts].join('/');
+  const packages = parts.slice(0, -1).map((_, index) => [...up, ...parts.slice(0, index + 1), '__init__.py'].join('/'));
+  return parts.length > 0 ? [...packages, `${base}.py`, `${base}/__init__.py`] : [];
+};
+
+const PYTHON_IMPORT = /^[ \t]*(?:from[ \t]+([\w.]+)[ \t]+import[ \t]+\(?([\w, \t]*)|import[ \t]+([\w., \t]+))/gm;
+const SCRIPT_IMPORT = /(?:\brequire\s*\(|\bimport\s*\(|\bfrom\s+|\bimport\s+)['"](\.{1,2}\/[^'"]+)['"]/g;
+const scriptPaths = (specifier: string) => [
+  specifier,
+  ...['.js', '.mjs', '.cjs', '.ts', '/index.js', '/index.ts'].map(suffix => `${specifier}${suffix}`),
+  // TypeScript imports name the compiled file: `./util.js` is `util.ts`.
+  specifier.replace(/\.js$/, '.ts')
+];
+
+// Interpreted languages load local modules at run time, so a file another one imports belongs to
+// that program instead of being one itself. Each entry lists the paths, relative to the importing
+// file's folder, its imports may refer to.
+const LOCAL_IMPORTS: Record<string, (content: string) => string[]> = {
+  py: content => [...content.matchAll(PYTHON_IMPORT)].flatMap(([, from, names, modules]) => {
+    const strip = (list: string) => list.split(',').map(name => name.trim().split(/\s+as\s+/)[0]).filter(Boolean);
+    if (!from) return strip(modules).flatMap(pythonModulePaths);
+    // `from pkg import mod` may name submodules as well as attributes.
+    const prefix = from.endsWith('.') ? from : `${from}.`;
+    return [...pythonModulePaths(from), ...strip(names).flatMap(name => pythonModulePaths(`${prefix}${name}`))];
+  }),
+  js: content => [...content.matchAll(SCRIPT_IMPORT)].flatMap(match => scriptPaths(match[1])),
+  rb: content => [...content.matchAll(/\brequire_relative\s*\(?\s*['"]([^'"]+)['"]/g)]
+    .flatMap(([, target]) => target.endsWith('.rb') ? [target] : [target, `${target}.rb`])
+};
+const IMPORT_STYLES: Record<string, string> = { py: 'py', pyw: 'py', js: 'js', mjs: 'js', cjs: 'js', ts: 'js', mts: 'js', cts: 'js', rb: 'rb' };
+
+// A Python module with an `if __name__ == "__main__":` block is also meant to be run on its own.
+const isScript = (file: UploadedText) =>
+  IMPORT_STYLES[extensionOf(file.name)] === 'py' && /^if\s+__name__\s*==\s*['"]__main__['"]/m.test(file.content);
+
+/** The uploaded files each file imports directly (see `LOCAL_IMPORTS`). */
+const localImports = (sources: UploadedText[]) => {
+  const byPath = new Map(sources.map(file => [filePath(file), file]));
+  return new Map(sources.map(file => {
+    const style = IMPORT_STYLES[extensionOf(file.name)];
+    const targets = style ? LOCAL_IMPORTS[style](file.content) : [];
+    const found = targets
+      .map(target => resolvePath(file.dir, target))
+      .map(path => path === undefined ? undefined : byPath.get(path))
+      .filter((target): target is UploadedText => !!target && target !== file);
+    return [file, [...new Set(found)]];
+  }));
+};
+
+/**
+ * `files` and everything they import, directly or not, from the folder `dir` or below. Support
+ * files keep their paths relative to the entry's folder, so imports from outside it aren't followed.
+ */
+const withImports = (files: UploadedText[], imports: Map<UploadedText, UploadedText[]>, dir: string) => {
+  const reached = new Set<UploadedText>();
+  const visit = (file: UploadedText) => {
+    if (reached.has(file) || !isWithin(file.dir, dir)) return;
+    reached.add(file);
+    imports.get(file)!.forEach(visit);
+  };
+  files.forEach(visit);
+  return reached;
+};
+
+// The closest folder above (or at) each non-entry file that has entry points of the same language owns it.
+const groupByFolder = (sources: UploadedText[]): ProgramGroup[] => {
+  const isEntry = (file: UploadedText) => {
+    const family = familyOf(file.name);
+    return !family || family.isEntry(file);
+  };
+  const entries = sources.filter(isEntry);
+  const groups = new Map(entries.map(entry => [entry, [] as UploadedText[]]));
+
+  sources.filter(file => !isEntry(file)).forEach(file => {
+    const family = familyOf(file.name)!;
+    const owners = entries.filter(entry =>
+      familyOf(entry.name) === family && isWithin(file.dir, entry.dir) && (family.belongsTo?.(file, entry) ?? true));
+    const ownerDir = owners.reduce((deepest, entry) => entry.dir.length > deepest.length ? entry.dir : deepest, '');
+    const closest = owners.filter(entry => entry.dir === ownerDir);
+    if (closest.length === 0) {
+      if (!family.supportOnly?.includes(extensionOf(file.name))) groups.set(file, []);
+      return;
+    }
+    closest.forEach(entry => groups.get(entry)!.push(file));
+  });
+
+  // Keep the upload order.
+  return sources.filter(file => groups.has(file)).map(entry => ({ entry, support: groups.get(entry)! }));
+};
+
+/**
+ * Groups uploaded sources into programs by folder: `Q1/main.cpp` and `Q2/main.cpp` stay separate,
+ * while `Q1/util.h` or `Q1/model/Shape.java` join the program(s) in `Q1`. Modules imported by a
+ * Python, JavaScript/TypeScript or Ruby file in their folder or above join the program(s) that
+ * import them; Python modules with a `__main__` block stay programs too. Files without an entry point above them become
+ * programs of their own, as every file did before grouping existed. Headers are left out instead.
+ */
+export const groupPrograms = (sources: UploadedText[]): ProgramGroup[] => {
+  const imports = localImports(sources);
+  const imported = new Set([...imports.values()].flat());
+  // Modules reached from a file nothing imports; files that only import each other stay programs.
+  const modules = new Set(sources.filter(file => !imported.has(file)).flatMap(root => [...withImports([root], imports, root.dir)]));
+  const groups = groupByFolder(sources.filter(file => !imported.has(file) || !modules.has(file) || isScript(file)));
+
+  return groups.map(({ entry, support }) => {
+    const members = withImports([entry, ...support], imports, entry.dir);
+    return { entry, support: sources.filter(file => file !== entry && members.has(file)) };
+  });
+};
+
+/** Path of `file` relative to the folder `dir`, which contains it. */
+const relativePath = (file: UploadedText, dir: string) =>
+  [file.dir.slice(dir.length).replace(/^\//, ''), file.name].filter(Boolean).join('/');
+
+export const toSourceFiles = ({ entry, support }: ProgramGroup): SourceFile[] =>
+  support.map(file => ({ path: relativePath(file, entry.dir), content: file.content }));
+
+const sourceLanguage = (path: string) => languageForFile(path)?.id ?? 'text';
+
+/**
+ * Every file of a program, entry first, with paths relative to the program's folder and the
+ * language to highlight each one as. Notebooks list their code cells (see `codeView`).
+ */
+export const programSources = (
+  file: Pick<ProgramFile, 'name' | 'content' | 'language' | 'sources'>
+): (SourceFile & { language: string })[] => {
+  const entry = codeView(file);
+  return [
+    { path: file.name, content: entry.code, language: entry.language },
+    ...(file.sources ?? []).map(source => ({ ...source, language: sourceLanguage(source.path) }))
+  ];
+};
+
+/** Last folder of the program's path, e.g. `Q1` for `Lab5/Q1/main.cpp`; empty at the top level. */
+export const programFolder = (file: Pick<ProgramFile, 'name' | 'path'>) =>
+  (file.path ?? file.name).split('/').slice(0, -1).pop() ?? '';
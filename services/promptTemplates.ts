@@ -0,0 +1,47 @@
+import { PromptTemplate, PromptTemplates } from '../types';
+import { terminalPrompt } from '../constants';
+import { findLanguage } from './languages';
+
+export const PROMPT_VARIABLES: { token: string; description: string }[] = [
+  { token: '{{code}}', description: 'Source code (every file of a multi-file program)' },
+  { token: '{{language}}', description: 'Language name, e.g. Python' },
+  { token: '{{filename}}', description: 'Entry file name' },
+  { token: '{{stdin}}', description: 'Input of the run; added after the prompt when not used' }
+];
+
+// Applies to every terminal language that has no template of its own.
+export const DEFAULT_TEMPLATE_KEY = 'default';
+
+const SYSTEM_INSTRUCTIONS = {
+  terminal: 'You are a precise code execution simulator. Output exactly what a terminal would print.',
+  browser: 'You are a web browser console. Extract and print only the log outputs from the code provided.'
+};
+
+/** The template AutoLab ships with for a language id (or `default`). */
+export const builtInTemplate = (key: string): PromptTemplate => {
+  const language = key === DEFAULT_TEMPLATE_KEY ? undefined : findLanguage(key);
+  return {
+    prompt: `${language?.prompt ?? terminalPrompt('{{language}}')}\n\nCode:\n{{code}}`,
+    systemInstruction: SYSTEM_INSTRUCTIONS[language?.kind === 'browser' ? 'browser' : 'terminal']
+  };
+};
+
+/** The language's own custom template, else the custom default (terminal languages only), else the built-in one. */
+export const resolveTemplate = (languageId: string, templates: PromptTemplates): PromptTemplate => {
+  const isBrowser = findLanguage(languageId)?.kind === 'browser';
+  return templates[languageId]
+    ?? (isBrowser ? undefined : templates[DEFAULT_TEMPLATE_KEY])
+    ?? builtInTemplate(languageId);
+};
+
+export interface PromptValues {
+  code: string;
+  language: string;
+  filename: string;
+  stdin: string;
+}
+
+/** Fills in `{{variables}}`; unknown ones are left as they are. */
+export const renderTemplate = (text: string, values: PromptValues) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as keyof PromptValues] : match);
@@ -0,0 +1,73 @@
+import { FileStatus, ProgramFile, SessionSettings, SessionSnapshot } from '../types';
+import { codeImageKey, getRunSlots } from './inputSets';
+import { detectImageFormat, IMAGE_FORMATS } from './imageFormat';
+import { getWebviewState, isVsCodeWebview, notifyHost, requestHost, setWebviewState } from './vscodeBridge';
+
+export interface StoredSession {
+  snapshot: SessionSnapshot;
+  images: Record<string, Uint8Array>;
+}
+
+export const createSessionId = () => Math.random().toString(36).substring(2) + Date.now().toString(36);
+
+export const toSnapshot = (sessionId: string, files: ProgramFile[], settings: SessionSettings): SessionSnapshot => ({
+  sessionId,
+  savedAt: new Date().toISOString(),
+  settings,
+  files: files.map(({ imageBlob: _blob, inputs, codeImages, ...file }) => ({
+    ...file,
+    inputs: inputs?.map(({ imageBlob: _blob, ...input }) => input),
+    codeImageCount: codeImages?.length
+  })),
+  imageKeys: files.flatMap(file => [
+    ...getRunSlots(file).filter(slot => !!slot.imageBlob).map(slot => slot.key),
+    ...(file.codeImages ?? []).map((_, page) => codeImageKey(file.id, page))
+  ])
+});
+
+/** Rebuilds files from a snapshot, re-attaching whatever screenshots were stored for it. */
+export const restoreFiles = ({ snapshot, images }: StoredSession): ProgramFile[] => {
+  const toBlob = (key: string) => images[key]
+    ? new Blob([images[key]], { type: IMAGE_FORMATS[detectImageFormat(images[key])].mimeType })
+    : undefined;
+
+  return snapshot.files.map(({ codeImageCount, ...file }) => {
+    const codeImages = Array.from({ length: codeImageCount ?? 0 }, (_, page) => toBlob(codeImageKey(file.id, page)));
+    return {
+      ...file,
+      // A run that was interrupted by the reload has to start over.
+      status: file.status === FileStatus.RUNNING ? FileStatus.PENDING : file.status,
+      imageBlob: toBlob(file.id),
+      inputs: file.inputs?.map(input => ({ ...input, imageBlob: toBlob(`${file.id}:${input.id}`) })),
+      // Code snapshots only come back if every page was stored.
+      codeImages: codeImages.length > 0 && codeImages.every(Boolean) ? codeImages as Blob[] : undefined
+    };
+  });
+};
+
+export const getLocalSnapshot = () => getWebviewState<SessionSnapshot>();
+
+export const persistSession = (snapshot: SessionSnapshot) => {
+  setWebviewState(snapshot);
+  notifyHost('saveSession', snapshot);
+};
+
+export const persistSessionImage = async (sessionId: string, key: string, blob: Blob) => {
+  if (!isVsCodeWebview()) return;
+  notifyHost('saveSessionImage', { sessionId, key, data: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type });
+};
+
+export const loadStoredSession = async (): Promise<StoredSession | null> => {
+  if (!isVsCodeWebview()) return null;
+  try {
+    return await requestHost<StoredSession | null>('loadSession');
+  } catch (err) {
+    console.error('Could not load the saved session:', err);
+    return null;
+  }
+};
+
+export const clearStoredSession = () => {
+  setWebviewState(undefined);
+  notifyHost('clearSession');
+};
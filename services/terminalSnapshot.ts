@@ -0,0 +1,132 @@
+import { ProgramFile, SnapshotStyle, TranscriptChunk } from '../types';
+import { TERMINAL_PRESETS } from '../constants';
+import { runCommandFor } from './languages';
+import { RunSlot } from './inputSets';
+
+/** Fills [user], [host] and [file] in a terminal title or prompt. */
+export const formatChrome = (text: string, file: Pick<ProgramFile, 'name'>, style: Pick<SnapshotStyle, 'username' | 'hostname'>) => text
+  .replace(/\[user\]/g, style.username)
+  .replace(/\[host\]/g, style.hostname)
+  .replace(/\[file\]/g, file.name);
+
+// Monospace advance and line height (Tailwind's leading-relaxed), relative to the font size.
+const CHAR_WIDTH = 0.6;
+const LINE_HEIGHT = 1.625;
+const HEADER_HEIGHT = 40;
+const PADDING = 40;
+// Lines are wrapped at this many columns; narrower output still gets a window this wide.
+const MAX_COLUMNS = 100;
+const MIN_COLUMNS = 60;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+interface Span {
+  text: string;
+  input?: boolean;
+}
+
+/** Splits the output into display lines of at most `MAX_COLUMNS`, keeping which parts were typed input. */
+const layoutLines = (chunks: TranscriptChunk[]): Span[][] => {
+  const lines: Span[][] = [[]];
+  let column = 0;
+  chunks.forEach(chunk => {
+    const input = chunk.kind === 'input';
+    chunk.text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+        column = 0;
+      }
+      let rest = part;
+      while (rest.length > 0) {
+        if (column === MAX_COLUMNS) {
+          lines.push([]);
+          column = 0;
+        }
+        const piece = rest.slice(0, MAX_COLUMNS - column);
+        lines[lines.length - 1].push({ text: piece, input });
+        column += piece.length;
+        rest = rest.slice(piece.length);
+      }
+    });
+  });
+  return lines;
+};
+
+const windowControls = (controls: string, right: number, color: string) => {
+  const y = HEADER_HEIGHT / 2;
+  switch (controls) {
+    case 'mac':
+      return ['#ff5f56', '#ffbd2e', '#27c93f']
+        .map((fill, i) => `<circle cx="${26 + i * 20}" cy="${y}" r="6" fill="${fill}"/>`).join('');
+    case 'windows':
+      return [
+        `<line x1="${right - 92}" y1="${y}" x2="${right - 82}" y2="${y}"/>`,
+        `<rect x="${right - 58}" y="${y - 5}" width="10" height="10" fill="none"/>`,
+        `<path d="M${right - 24} ${y - 5}l10 10M${right - 14} ${y - 5}l-10 10"/>`
+      ].map(shape => shape.replace('/>', ` stroke="${color}" stroke-width="1.2"/>`)).join('');
+    case 'gnome':
+      return `<circle cx="${right - 20}" cy="${y}" r="10" fill="#ffffff" fill-opacity="0.1"/>`
+        + `<path d="M${right - 23} ${y - 3}l6 6M${right - 17} ${y - 3}l-6 6" stroke="${color}" stroke-width="1.2"/>`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * The terminal snapshot of one run as an SVG, laid out like the app's terminal view, for places
+ * without a DOM to capture (the command-line batch mode rasterises it).
+ */
+export const renderTerminalSvg = (
+  file: Pick<ProgramFile, 'name' | 'language' | 'status'>,
+  slot: Pick<RunSlot, 'label' | 'output' | 'transcript'>,
+  style: SnapshotStyle
+) => {
+  const preset = TERMINAL_PRESETS[style.preset];
+  const fontSize = style.fontSize;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const prompt = formatChrome(style.prompt || preset.prompt, file, style);
+  const command = `${runCommandFor(file)}${slot.label ? ` < ${slot.label}` : ''}`;
+
+  const lines = layoutLines(slot.transcript ?? [{ kind: 'output', text: slot.output ?? '' }]);
+  while (lines.length > 0 && lines[lines.length - 1].every(span => span.text.trim() === '')) lines.pop();
+  const finished = file.status === 'completed';
+
+  const longest = Math.max(prompt.length + 1 + command.length, ...lines.map(line => line.reduce((sum, span) => sum + span.text.length, 0)));
+  const width = Math.ceil(PADDING * 2 + Math.min(MAX_COLUMNS, Math.max(MIN_COLUMNS, longest)) * fontSize * CHAR_WIDTH);
+  // Prompt line, a gap, the output, and the closing prompt once the run is done.
+  const bodyLines = 1 + lines.length + (finished ? 2 : 0);
+  const height = Math.ceil(HEADER_HEIGHT + PADDING * 2 + lineHeight * bodyLines + (lines.length > 0 ? 16 : 0));
+
+  const baseline = (row: number, offset = 0) => HEADER_HEIGHT + PADDING + offset + lineHeight * row + fontSize;
+  const text = (row: number, spans: string, offset = 0) =>
+    `<text x="${PADDING}" y="${baseline(row, offset).toFixed(1)}" xml:space="preserve">${spans}</text>`;
+  const promptSpan = `<tspan font-weight="bold" fill="${preset.promptColor}">${escapeXml(prompt)}</tspan>`;
+
+  const body = [
+    text(0, `${promptSpan} ${escapeXml(command)}`),
+    ...lines.map((line, row) => text(row + 1, line.map(span => span.input
+      ? `<tspan font-weight="bold" text-decoration="underline" fill="${preset.promptColor}">${escapeXml(span.text)}</tspan>`
+      : `<tspan>${escapeXml(span.text)}</tspan>`).join(''), 16)),
+    finished ? text(lines.length + 2, promptSpan, 16) : ''
+  ];
+
+  const title = escapeXml(formatChrome(preset.title, file, style));
+  const titleX = preset.controls === 'mac' ? width - 20 : 20;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="${preset.backdrop}"/>`,
+    `<rect width="${width}" height="${height}" rx="16" fill="${preset.background}" stroke="${preset.border}"/>`,
+    `<path d="M0 16a16 16 0 0 1 16-16h${width - 32}a16 16 0 0 1 16 16v${HEADER_HEIGHT - 16}h-${width}z" fill="${preset.header}"/>`,
+    `<line x1="0" y1="${HEADER_HEIGHT}" x2="${width}" y2="${HEADER_HEIGHT}" stroke="${preset.border}"/>`,
+    windowControls(preset.controls, width, preset.titleColor),
+    `<text x="${titleX}" y="${HEADER_HEIGHT / 2 + 4}" text-anchor="${preset.controls === 'mac' ? 'end' : 'start'}" font-family="${escapeXml(preset.fontFamily)}" font-size="11" font-weight="bold" letter-spacing="1" fill="${preset.titleColor}">${title}</text>`,
+    `<g font-family="${escapeXml(preset.fontFamily)}" font-size="${fontSize}" fill="${preset.text}">`,
+    ...body,
+    '</g>',
+    '</svg>'
+  ].join('\n');
+};
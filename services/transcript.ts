@@ -0,0 +1,35 @@
+import { TranscriptChunk } from '../types';
+
+// The AI simulator marks every line the program reads as `<stdin>line</stdin>`.
+const ECHO_TAG = /<stdin>([\s\S]*?)<\/stdin>\n?/g;
+
+export const ECHO_INSTRUCTION =
+  'Wherever the program reads a line from standard input, print that line where an interactive terminal would echo it, wrapped as <stdin>line</stdin>.';
+
+/** Adds text to a transcript, merging it into the last chunk when that is of the same kind. */
+export const appendChunk = (chunks: TranscriptChunk[], kind: TranscriptChunk['kind'], text: string) => {
+  if (!text) return chunks;
+  const last = chunks[chunks.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else chunks.push({ kind, text });
+  return chunks;
+};
+
+/** Splits simulated output into printed text and echoed input lines. */
+export const parseEchoedInput = (text: string): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = [];
+  let position = 0;
+  for (const match of text.matchAll(ECHO_TAG)) {
+    appendChunk(chunks, 'output', text.slice(position, match.index));
+    appendChunk(chunks, 'input', `${match[1]}\n`);
+    position = match.index! + match[0].length;
+  }
+  appendChunk(chunks, 'output', text.slice(position));
+  return chunks;
+};
+
+/** The program's own output without the echoed input, which is what gets graded. */
+export const transcriptOutput = (chunks: TranscriptChunk[]) =>
+  chunks.filter(chunk => chunk.kind === 'output').map(chunk => chunk.text).join('');
+
+export const hasEchoedInput = (chunks?: TranscriptChunk[]) => !!chunks?.some(chunk => chunk.kind === 'input');
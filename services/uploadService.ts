@@ -0,0 +1,96 @@
+import { FileStatus, ProgramFile } from '../types';
+import { isExpectedOutputFile, isInputFile, matchExpectedOutput, matchInputSets, UploadedText } from './inputSets';
+import { groupPrograms, toSourceFiles } from './programGroups';
+import { languageForFile } from './languages';
+import { parseNotebook } from './notebook';
+
+const isIgnoredUpload = (file: File) => file.name.startsWith('.') || file.name.includes('DS_Store');
+
+/** Reads a browser FileList (folder or multi-select upload) into plain text records. */
+export const readBrowserFiles = (fileList: FileList): Promise<UploadedText[]> =>
+  Promise.all(Array.from<File>(fileList).filter(f => !isIgnoredUpload(f)).map(async file => ({
+    name: file.name,
+    dir: file.webkitRelativePath.split('/').slice(0, -1).join('/'),
+    content: await file.text()
+  })));
+
+export interface SkippedUpload {
+  path: string;
+  reason: string;
+}
+
+export interface UploadResult {
+  programs: ProgramFile[];
+  // Files that are neither programs nor inputs/expected outputs; the UI warns about them.
+  skipped: SkippedUpload[];
+}
+
+// Text decoding turns binary data into NULs and replacement characters; a few percent of either
+// in the first few KB means this was never a text file.
+const looksBinary = (content: string) => {
+  const head = content.slice(0, 8000);
+  const suspicious = head.match(/[\u0000\ufffd]/g)?.length ?? 0;
+  return head.includes('\u0000') || suspicious > head.length * 0.02;
+};
+
+// Only checked for entry files: stylesheets and other support files need not be programs themselves.
+const skipReason = (file: UploadedText): string | undefined => {
+  const language = languageForFile(file.name);
+  if (!language) return 'unsupported file type';
+  if (language.kind === 'notebook') {
+    try {
+      parseNotebook(file.content);
+    } catch {
+      return 'not a valid Jupyter notebook';
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Turns uploaded text files (from the browser picker or the VS Code explorer) into programs.
+ * `*.in` / `input.txt` and `*.out` / `expected.txt` files belong to the programs next to them,
+ * and multi-file programs are grouped by folder (see `groupPrograms`). Anything else that is not
+ * in `LANGUAGES`, or is binary, is skipped.
+ */
+export const createProgramFiles = (uploaded: UploadedText[]): UploadResult => {
+  const isDataFile = (name: string) => isInputFile(name) || isExpectedOutputFile(name);
+  const dataFiles = uploaded.filter(f => isDataFile(f.name));
+  const skipped: SkippedUpload[] = [];
+  const skip = (file: UploadedText, reason: string) => skipped.push({ path: file.dir ? `${file.dir}/${file.name}` : file.name, reason });
+  const candidates = uploaded.filter(f => {
+    if (isDataFile(f.name)) return false;
+    const binary = looksBinary(f.content);
+    if (binary) skip(f, 'binary file');
+    return !binary;
+  });
+  const grouped = groupPrograms(candidates);
+  // Headers no program includes are left out by the grouping.
+  const used = new Set(grouped.flatMap(({ entry, support }) => [entry, ...support]));
+  candidates.filter(file => !used.has(file)).forEach(file => skip(file, 'header without a program that uses it'));
+  const groups = grouped.filter(({ entry }) => {
+    const reason = skipReason(entry);
+    if (reason) skip(entry, reason);
+    return !reason;
+  });
+
+  const programs = groups.map((group): ProgramFile => {
+    const { entry: file } = group;
+    const language = languageForFile(file.name)!;
+    // Only terminal programs read stdin.
+    const inputs = language.kind === 'terminal' ? matchInputSets(file, dataFiles) : [];
+    const sources = toSourceFiles(group);
+    return {
+      id: Math.random().toString(36).substring(7),
+      name: file.name,
+      path: file.dir ? `${file.dir}/${file.name}` : file.name,
+      content: file.content,
+      language: language.id,
+      ...(sources.length > 0 ? { sources } : {}),
+      status: FileStatus.PENDING,
+      inputs,
+      expectedOutput: inputs.length === 0 ? matchExpectedOutput(file, dataFiles) : undefined,
+    };
+  });
+  return { programs, skipped };
+};
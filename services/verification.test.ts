@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { FileStatus, InputSet, ProgramFile, RunResult, Verification } from '../types';
+import { DEFAULT_GRADING_OPTIONS } from './grading';
+import { fileVerification, unverifiedSnapshots, verifySimulation } from './verification';
+
+const run = (extra: Partial<RunResult> = {}): RunResult =>
+  ({ stdout: '', stderr: '', exitCode: 0, timedOut: false, durationMs: 5, ...extra });
+
+const program = (extra: Partial<ProgramFile> = {}): ProgramFile =>
+  ({ id: 'a', name: 'a.py', content: '', language: 'py', status: FileStatus.COMPLETED, ...extra });
+
+const simulatedInput = (id: string, verification?: Verification, extra: Partial<InputSet> = {}): InputSet =>
+  ({ id, name: `${id}.in`, stdin: '', simulated: true, verification, ...extra });
+
+describe('verifySimulation', () => {
+  it('verifies output that matches what the real run printed', () => {
+    expect(verifySimulation('Sum: 3\n', run({ stdout: 'Sum: 3\n\n' }), DEFAULT_GRADING_OPTIONS)).toEqual({ status: 'verified' });
+  });
+
+  it('compares stdout and stderr together', () => {
+    const real = run({ stdout: 'Enter n: ', stderr: 'ValueError: bad n\n' });
+    expect(verifySimulation('Enter n: ValueError: bad n', real, DEFAULT_GRADING_OPTIONS).status).toBe('verified');
+  });
+
+  it('reports a non-zero exit code apart from the output', () => {
+    const real = run({ stderr: 'Traceback: boom\n', exitCode: 1 });
+    expect(verifySimulation('Traceback: boom', real, DEFAULT_GRADING_OPTIONS)).toEqual({ status: 'verified', exitCode: 1 });
+    expect(verifySimulation('All good', real, DEFAULT_GRADING_OPTIONS)).toMatchObject({ status: 'divergent', exitCode: 1 });
+  });
+
+  it('matches a simulation without output against a silent run', () => {
+    expect(verifySimulation('No output generated.', run(), DEFAULT_GRADING_OPTIONS)).toEqual({ status: 'verified' });
+  });
+
+  it('flags divergent output with a diff', () => {
+    const verification = verifySimulation('Sum: 4', run({ stdout: 'Sum: 3\n' }), DEFAULT_GRADING_OPTIONS);
+    expect(verification.status).toBe('divergent');
+    expect(verification.diff?.map(line => line.kind)).toEqual(['extra', 'missing']);
+  });
+
+  it('leaves runs that never finished unverifiable', () => {
+    expect(verifySimulation('x', run({ timedOut: true, exitCode: null }), DEFAULT_GRADING_OPTIONS))
+      .toEqual({ status: 'unverifiable', reason: 'The real run timed out' });
+    expect(verifySimulation('x', run({ exitCode: null, stderr: "'python3' was not found.\nMore\n" }), DEFAULT_GRADING_OPTIONS))
+      .toEqual({ status: 'unverifiable', reason: "'python3' was not found." });
+    expect(verifySimulation('x', run({ exitCode: null }), DEFAULT_GRADING_OPTIONS).reason).toBe('The real run could not be started');
+  });
+});
+
+describe('fileVerification', () => {
+  it('is the worst verdict of the simulated runs', () => {
+    const inputs = [simulatedInput('one', { status: 'verified' }), simulatedInput('two', { status: 'unverifiable' })];
+    expect(fileVerification(program({ inputs }))).toBe('unverifiable');
+    expect(fileVerification(program({ inputs: [...inputs, simulatedInput('three', { status: 'divergent' })] }))).toBe('divergent');
+    expect(fileVerification(program({ inputs: inputs.slice(0, 1) }))).toBe('verified');
+  });
+
+  it('ignores real runs and is undefined when nothing was checked', () => {
+    const real = simulatedInput('real', undefined, { simulated: false });
+    expect(fileVerification(program({ inputs: [real, simulatedInput('one', { status: 'verified' })] }))).toBe('verified');
+    expect(fileVerification(program({ inputs: [real] }))).toBeUndefined();
+    expect(fileVerification(program({ simulated: true }))).toBeUndefined();
+  });
+});
+
+describe('unverifiedSnapshots', () => {
+  it('lists captured simulated runs that no real run confirmed', () => {
+    const image = new Blob(['png']);
+    const file = program({
+      inputs: [
+        simulatedInput('one', { status: 'verified' }, { imageBlob: image }),
+        simulatedInput('two', { status: 'divergent' }, { imageBlob: image }),
+        simulatedInput('three', undefined, { imageBlob: image }),
+        simulatedInput('four', { status: 'divergent' })
+      ]
+    });
+    expect(unverifiedSnapshots([file, program({ id: 'b' })]).map(({ file, slots }) => [file.id, slots.map(slot => slot.inputId)]))
+      .toEqual([['a', ['two', 'three']]]);
+  });
+});
@@ -0,0 +1,42 @@
+import { GradingOptions, ProgramFile, RunResult, Verification, VerificationStatus } from '../types';
+import { NO_OUTPUT, runOutput } from './executionService';
+import { gradeOutput } from './grading';
+import { getRunSlots, RunSlot } from './inputSets';
+
+/**
+ * Compares a simulated output with what a real run of the same program printed, using the
+ * expected-output comparison options. The exit code is reported apart, since a simulation only
+ * shows output. Runs that never finished prove nothing, so they leave the output unverifiable.
+ */
+export const verifySimulation = (simulated: string, real: RunResult, options: GradingOptions): Verification => {
+  if (real.timedOut) return { status: 'unverifiable', reason: 'The real run timed out' };
+  if (real.exitCode === null) {
+    return { status: 'unverifiable', reason: real.stderr.trim().split('\n')[0] || 'The real run could not be started' };
+  }
+  const { passed, diff } = gradeOutput(simulated === NO_OUTPUT ? '' : simulated, runOutput(real), options);
+  const exitCode = real.exitCode !== 0 ? { exitCode: real.exitCode } : {};
+  return passed ? { status: 'verified', ...exitCode } : { status: 'divergent', diff, ...exitCode };
+};
+
+// Checked (or not) runs whose output the AI made up.
+const simulatedSlots = (file: ProgramFile) => getRunSlots(file).filter(slot => slot.simulated);
+
+/**
+ * One verdict for the whole file, the worst of its simulated runs: divergent over unverifiable over
+ * verified. Undefined when nothing was simulated, or verification was off.
+ */
+export const fileVerification = (file: ProgramFile): VerificationStatus | undefined => {
+  const statuses = simulatedSlots(file).map(slot => slot.verification?.status);
+  if (statuses.includes('divergent')) return 'divergent';
+  if (statuses.includes('unverifiable')) return 'unverifiable';
+  return statuses.length > 0 && statuses.every(status => status === 'verified') ? 'verified' : undefined;
+};
+
+/** Screenshots showing simulated output that no real run confirmed, grouped by file. */
+export const unverifiedSnapshots = (files: ProgramFile[]): { file: ProgramFile; slots: RunSlot[] }[] =>
+  files
+    .map(file => ({
+      file,
+      slots: simulatedSlots(file).filter(slot => slot.imageBlob && slot.verification?.status !== 'verified')
+    }))
+    .filter(entry => entry.slots.length > 0);
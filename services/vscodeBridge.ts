@@ -0,0 +1,78 @@
+interface VsCodeApi {
+  postMessage(message: unknown): void;
+  getState(): unknown;
+  setState(state: unknown): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+interface HostResponse {
+  type: 'response';
+  requestId: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// acquireVsCodeApi may only be called once per webview, so keep a single handle.
+const vscodeApi: VsCodeApi | undefined =
+  typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : undefined;
+
+const pending = new Map<string, { resolve: (value: any) => void; reject: (reason: Error) => void }>();
+const listeners = new Map<string, Set<(message: any) => void>>();
+
+if (vscodeApi) {
+  window.addEventListener('message', (event: MessageEvent) => {
+    const message = event.data as HostResponse;
+    if (message?.type !== 'response') {
+      listeners.get(message?.type)?.forEach(listener => listener(message));
+      return;
+    }
+    if (!pending.has(message.requestId)) return;
+
+    const { resolve, reject } = pending.get(message.requestId)!;
+    pending.delete(message.requestId);
+    if (message.ok) {
+      resolve(message.result);
+    } else {
+      reject(new Error(message.error || 'Extension host request failed.'));
+    }
+  });
+}
+
+export const isVsCodeWebview = () => !!vscodeApi;
+
+/** Webview-local state that survives the panel being hidden, moved or revived after a reload. */
+export const getWebviewState = <T>(): T | undefined => vscodeApi?.getState() as T | undefined;
+
+export const setWebviewState = (state: unknown) => {
+  vscodeApi?.setState(state);
+};
+
+/** Fire-and-forget message to the extension host. No-op outside VS Code. */
+export const notifyHost = (type: string, payload?: unknown) => {
+  vscodeApi?.postMessage({ type, payload });
+};
+
+/**
+ * Sends a request to the VS Code extension host and resolves with its reply.
+ * Rejects immediately when the app is not running inside a webview.
+ */
+export const requestHost = <T>(type: string, payload?: unknown): Promise<T> => {
+  if (!vscodeApi) {
+    return Promise.reject(new Error('Not running inside VS Code.'));
+  }
+
+  const requestId = Math.random().toString(36).substring(2) + Date.now().toString(36);
+  return new Promise<T>((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    vscodeApi.postMessage({ type, requestId, payload });
+  });
+};
+
+/** Subscribes to messages the extension host pushes on its own. Returns an unsubscribe function. */
+export const onHostMessage = <T = unknown>(type: string, listener: (message: T) => void) => {
+  if (!listeners.has(type)) listeners.set(type, new Set());
+  listeners.get(type)!.add(listener);
+  return () => { listeners.get(type)?.delete(listener); };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { FileStatus, PackagingOptions, ProgramFile } from '../types';
+import { checkNames } from './naming';
+import { DEFAULT_PACKAGING_OPTIONS, planSubmission, SubmissionLayoutError } from './zipService';
+
+const program = (name: string, content = ''): ProgramFile =>
+  ({ id: name, name, path: `lab/${name}`, content, language: 'java', status: FileStatus.COMPLETED });
+
+const flat: PackagingOptions = { ...DEFAULT_PACKAGING_OPTIONS, layout: 'flat' };
+
+describe('planSubmission', () => {
+  it('renames files whose names differ only in case', () => {
+    const paths = planSubmission([program('Main.java'), program('main.java')], flat).map(entry => entry.path);
+    expect(paths).toEqual(['Main.java', 'main_2.java', 'manifest.json']);
+  });
+
+  it('puts a file shared by several programs in once', () => {
+    const header = { path: 'util.h', content: '#define N 3' };
+    const files = [
+      { ...program('q1.c'), language: 'c', sources: [header] },
+      { ...program('q2.c'), language: 'c', sources: [header] }
+    ];
+    expect(planSubmission(files, flat).map(entry => entry.path)).toEqual(['q1.c', 'util.h', 'q2.c', 'manifest.json']);
+  });
+
+  it('refuses to rename a file its program includes', () => {
+    const files = [
+      { ...program('q1.c'), language: 'c', sources: [{ path: 'util.h', content: '#define N 1' }] },
+      { ...program('q2.c'), language: 'c', sources: [{ path: 'Util.h', content: '#define N 2' }] }
+    ];
+    expect(() => planSubmission(files, flat)).toThrow(SubmissionLayoutError);
+    expect(planSubmission(files, DEFAULT_PACKAGING_OPTIONS).filter(entry => entry.path.endsWith('.h'))).toHaveLength(2);
+  });
+
+  it('flags the same names as clashing in the name check', () => {
+    const checks = checkNames([program('Main.java'), program('main.java')], { ...flat, screenshotPattern: '[name]' }, 'flat');
+    expect(checks.map(check => check.problems)).toEqual([
+      ['Screenshot "Main" is used by more than one program'],
+      ['Screenshot "main" is used by more than one program']
+    ]);
+  });
+});
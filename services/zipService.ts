@@ -1,50 +1,197 @@
-
 import JSZip from 'jszip';
-import { ProgramFile } from '../types';
-
-export const generateSubmissionZip = async (
-  files: ProgramFile[], 
-  folderPattern: string = '[name]', 
-  screenshotPattern: string = '[name]_output',
-  startIndex: number = 1,
-  isNumberingEnabled: boolean = true
-): Promise<Blob> => {
-  const zip = new JSZip();
+import { ArchiveLayout, ImageFormat, PackagingOptions, ProgramFile } from '../types';
+import { getRunSlots, snapshotFileName } from './inputSets';
+import { buildGradingReport, DEFAULT_GRADING_OPTIONS, hasExpectedOutput, hasManualEdits } from './grading';
+import { formatName, formatRootName, nameKey } from './naming';
+import { blobImageFormat, IMAGE_FORMATS } from './imageFormat';
+
+export type SubmissionEntryKind = 'source' | 'screenshot' | 'code-snapshot' | 'report' | 'manifest';
+
+/** One file of the submission, with its final path inside the archive (or saved folder). */
+export interface SubmissionEntry {
+  path: string;
+  kind: SubmissionEntryKind;
+  data: string | Blob;
+  // Program (and input set) the entry belongs to; unset for reports and the manifest.
+  program?: string;
+  input?: string;
+}
+
+/** The chosen layout puts two different files at a path neither may be renamed from. */
+export class SubmissionLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionLayoutError';
+  }
+}
+
+export const DEFAULT_PACKAGING_OPTIONS: PackagingOptions = {
+  folderPattern: '[index]_[name]',
+  screenshotPattern: '[name]_output',
+  codePattern: '[name]_code',
+  startIndex: 1,
+  isNumberingEnabled: true,
+  layout: 'per-program',
+  rootPattern: '',
+  student: { studentName: '', rollNumber: '', course: '', labNumber: '' },
+  gradingOptions: DEFAULT_GRADING_OPTIONS
+};
+
+export const ARCHIVE_LAYOUT_LABELS: Record<ArchiveLayout, string> = {
+  'per-program': 'Folder per program',
+  'flat': 'Flat (no folders)',
+  'split': 'code/ + outputs/',
+  'combined': 'Single combined folder'
+};
+
+// Where a program's source and its screenshots go for each layout.
+const layoutDirs = (layout: ArchiveLayout, folderName: string) => {
+  switch (layout) {
+    case 'flat': return { code: '', outputs: '' };
+    case 'split': return { code: 'code', outputs: 'outputs' };
+    case 'combined': return { code: 'submission', outputs: 'submission' };
+    default: return { code: folderName, outputs: folderName };
+  }
+};
+
+const joinPath = (...parts: string[]) => parts.filter(Boolean).join('/');
+
+// Shared folders can receive two files with the same name (ignoring case, see `nameKey`); later
+// ones get a `_2`, `_3`... suffix. `taken` holds the keys of the paths used so far.
+const uniquePath = (path: string, taken: Set<string>) => {
+  if (!taken.has(nameKey(path))) return path;
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  const [stem, ext] = dot > slash + 1 ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+  let n = 2;
+  while (taken.has(nameKey(`${stem}_${n}${ext}`))) n++;
+  return `${stem}_${n}${ext}`;
+};
+
+const byteLength = (data: string | Blob) => typeof data === 'string' ? new TextEncoder().encode(data).length : data.size;
+
+// What the Settings preview assumes about images that have not been captured yet.
+export interface PathPreview {
+  codeImageCount?: number;
+  imageFormat?: ImageFormat;
+}
 
-  const formatName = (pattern: string, file: ProgramFile, index: number) => {
-    const nameWithoutExt = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
-    const ext = file.name.split('.').pop() || '';
-    
-    let formatted = pattern
-      .replace(/\[name\]/g, nameWithoutExt)
-      .replace(/\[ext\]/g, ext)
-      .replace(/\[full\]/g, file.name);
-
-    if (isNumberingEnabled) {
-      formatted = formatted.replace(/\[index\]/g, (startIndex + index).toString());
-    } else {
-      // Remove [index] and common separators following it
-      formatted = formatted.replace(/\[index\][_\-\s]?/g, '');
+/**
+ * Where a program's source and screenshots go (one per run slot, captured or not), before
+ * de-duplication. Captured images keep the extension of their format. Also used for the path preview in Settings.
+ */
+export const programPaths = (file: ProgramFile, index: number, options: PackagingOptions, preview: PathPreview = {}) => {
+  const root = formatRootName(options.rootPattern, options);
+  const dirs = layoutDirs(options.layout, formatName(options.folderPattern, file, index, options));
+  const screenshotName = formatName(options.screenshotPattern, file, index, options);
+  const codeName = formatName(options.codePattern, file, index, options);
+  const extension = (image?: Blob) =>
+    IMAGE_FORMATS[image ? blobImageFormat(image) : preview.imageFormat ?? 'png'].extension;
+  const slots = getRunSlots(file);
+  const codeImageCount = preview.codeImageCount ?? file.codeImages?.length ?? 0;
+  return {
+    source: joinPath(root, dirs.code, file.name),
+    // The rest of a multi-file program, laid out next to the entry file as it was uploaded.
+    sources: (file.sources ?? []).map(source => joinPath(root, dirs.code, source.path)),
+    screenshots: slots.map((slot, slotIndex) =>
+      joinPath(root, dirs.outputs, snapshotFileName(screenshotName, slotIndex, slots.length, extension(slot.imageBlob)))),
+    codeImages: Array.from({ length: codeImageCount }, (_, page) =>
+      joinPath(root, dirs.code, snapshotFileName(codeName, page, codeImageCount, extension(file.codeImages?.[page]))))
+  };
+};
+
+/** Lays out every file of the submission according to `options`; the last entry is `manifest.json`. */
+export const planSubmission = (files: ProgramFile[], options: PackagingOptions): SubmissionEntry[] => {
+  const root = formatRootName(options.rootPattern, options);
+  const entries: SubmissionEntry[] = [];
+  const taken = new Set<string>();
+  const add = (entry: SubmissionEntry) => {
+    const path = uniquePath(entry.path, taken);
+    taken.add(nameKey(path));
+    entries.push({ ...entry, path });
+  };
+  // The rest of a multi-file program is included or imported by its path, so it can't be renamed.
+  // Programs sharing a file (a header in a shared folder, say) put it in once.
+  const addSupport = (entry: SubmissionEntry) => {
+    if (!taken.has(nameKey(entry.path))) {
+      add(entry);
+      return;
     }
-    
-    return formatted;
+    const existing = entries.find(other => nameKey(other.path) === nameKey(entry.path));
+    if (existing?.path === entry.path && existing.data === entry.data) return;
+    throw new SubmissionLayoutError(
+      `${entry.path} of ${entry.program} clashes with another file in the "${ARCHIVE_LAYOUT_LABELS[options.layout]}" layout. ` +
+      'Renaming it would break the program, so choose "Folder per program" or rename one of the files.'
+    );
   };
 
   files.forEach((file, index) => {
-    const folderName = formatName(folderPattern, file, index);
-    const screenshotName = formatName(screenshotPattern, file, index);
-    const folder = zip.folder(folderName);
-    
-    if (folder) {
-      // Original code
-      folder.file(file.name, file.content);
-      
-      // Captured screenshot
-      if (file.imageBlob) {
-        folder.file(`${screenshotName}.png`, file.imageBlob);
+    const paths = programPaths(file, index, options);
+
+    // Original code
+    add({ path: paths.source, kind: 'source', data: file.content, program: file.name });
+    file.sources?.forEach((source, sourceIndex) => {
+      addSupport({ path: paths.sources[sourceIndex], kind: 'source', data: source.content, program: file.name });
+    });
+
+    // Captured screenshots, one per input set
+    getRunSlots(file).forEach((slot, slotIndex) => {
+      if (slot.imageBlob) {
+        add({
+          path: paths.screenshots[slotIndex],
+          kind: 'screenshot',
+          data: slot.imageBlob,
+          program: file.name,
+          input: slot.label
+        });
       }
-    }
+    });
+
+    // Source code snapshots, split into pages for long files
+    file.codeImages?.forEach((image, page) => {
+      add({ path: paths.codeImages[page], kind: 'code-snapshot', data: image, program: file.name });
+    });
   });
 
-  return await zip.generateAsync({ type: 'blob' });
+  // Grading and edit summary, only when there was something to compare against or something was edited
+  if (files.some(hasExpectedOutput) || files.some(hasManualEdits)) {
+    const report = buildGradingReport(files, (file, index) => formatName(options.folderPattern, file, index, options), options.gradingOptions);
+    add({ path: joinPath(root, 'report.json'), kind: 'report', data: report.json });
+    add({ path: joinPath(root, 'report.md'), kind: 'report', data: report.markdown });
+  }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    layout: options.layout,
+    programs: files.length,
+    entries: entries.map(({ path, kind, program, input, data }) => ({
+      path,
+      kind,
+      program: program ?? null,
+      input: input ?? null,
+      bytes: byteLength(data)
+    }))
+  };
+  add({ path: joinPath(root, 'manifest.json'), kind: 'manifest', data: JSON.stringify(manifest, null, 2) });
+
+  return entries;
+};
+
+export const createSubmissionZip = (files: ProgramFile[], options: PackagingOptions = DEFAULT_PACKAGING_OPTIONS) => {
+  const zip = new JSZip();
+  // Images go in as array buffers: JSZip reads Blobs with FileReader, which Node (the CLI) lacks.
+  planSubmission(files, options).forEach(entry => zip.file(entry.path, typeof entry.data === 'string' ? entry.data : entry.data.arrayBuffer()));
+  return zip;
 };
+
+export const generateSubmissionZip = (
+  files: ProgramFile[],
+  options: PackagingOptions = DEFAULT_PACKAGING_OPTIONS
+): Promise<Blob> => createSubmissionZip(files, options).generateAsync({ type: 'blob' });
+
+/** Raw bytes of every entry, for writing the submission out as a folder tree. */
+export const readSubmissionEntries = (files: ProgramFile[], options: PackagingOptions = DEFAULT_PACKAGING_OPTIONS) =>
+  Promise.all(planSubmission(files, options).map(async entry => ({
+    path: entry.path,
+    data: typeof entry.data === 'string' ? new TextEncoder().encode(entry.data) : new Uint8Array(await entry.data.arrayBuffer())
+  })));
@@ -1,17 +1,226 @@
 
+/** A piece of an interactive session: what the program printed, or a line it read from stdin. */
+export interface TranscriptChunk {
+  kind: 'output' | 'input';
+  text: string;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Output and stdin lines in the order they happened; only for runs that were given input.
+  transcript?: TranscriptChunk[];
+}
+
+export interface DiffLine {
+  kind: 'same' | 'missing' | 'extra';
+  text: string;
+}
+
+export interface GradeResult {
+  passed: boolean;
+  diff: DiffLine[];
+}
+
+// verified: a real run printed the same, divergent: it printed something else, unverifiable: no real run was possible
+export type VerificationStatus = 'verified' | 'divergent' | 'unverifiable';
+
+/** How an AI-simulated output compares with a real run of the same program and input. */
+export interface Verification {
+  status: VerificationStatus;
+  // Simulated vs real output, line by line; only for divergent runs.
+  diff?: DiffLine[];
+  // Why the output could not be checked; only for unverifiable runs.
+  reason?: string;
+  // The real run's exit code when it wasn't 0, which the simulated output can't show.
+  exitCode?: number;
+}
+
+export interface GradingOptions {
+  // exact: compare as-is, trailing: ignore trailing spaces and blank lines, all: collapse every whitespace run
+  whitespace: 'exact' | 'trailing' | 'all';
+  ignoreCase: boolean;
+  // Absolute tolerance for numeric tokens; 0 compares numbers as text.
+  floatTolerance: number;
+}
+
+export interface InputSet {
+  id: string;
+  name: string;
+  stdin: string;
+  expectedOutput?: string;
+  output?: string;
+  // What the terminal snapshot shows: `output` with the echoed input lines in place.
+  transcript?: TranscriptChunk[];
+  runResult?: RunResult;
+  grade?: GradeResult;
+  // Set when `output` came from the AI simulator rather than a real run.
+  simulated?: boolean;
+  verification?: Verification;
+  // The output as the run produced it, kept once `output` has been edited by hand.
+  originalOutput?: string;
+  imageBlob?: Blob;
+}
+
+/** Another file of a multi-file program, e.g. a header or a helper class. */
+export interface SourceFile {
+  // Relative to the folder of the program's entry file, e.g. `util.h` or `include/util.h`.
+  path: string;
+  content: string;
+}
+
 export interface ProgramFile {
   id: string;
+  // The entry file; `content` and `language` are its own.
   name: string;
+  // Relative path within the upload (`week1/prog.py`); sessions saved before paths existed only have `name`.
+  path?: string;
   content: string;
+  // The uploaded source, kept once `content` has been edited in the app.
+  originalContent?: string;
   language: string;
-  status: 'pending' | 'running' | 'completed' | 'error';
+  // Files compiled or run together with the entry file.
+  sources?: SourceFile[];
+  status: 'pending' | 'running' | 'completed' | 'mismatch' | 'error';
+  expectedOutput?: string;
   output?: string;
+  runResult?: RunResult;
+  grade?: GradeResult;
+  simulated?: boolean;
+  verification?: Verification;
+  originalOutput?: string;
   imageBlob?: Blob;
+  // Named stdin sets; each one gets its own run, output block and screenshot.
+  inputs?: InputSet[];
+  // Optional images of the highlighted source, one per page of `linesPerImage` lines.
+  codeImages?: Blob[];
 }
 
 export enum FileStatus {
   PENDING = 'pending',
   RUNNING = 'running',
   COMPLETED = 'completed',
+  // Completed, but at least one run differs from its expected output.
+  MISMATCH = 'mismatch',
   ERROR = 'error'
 }
+
+export type ExecutionMode = 'local' | 'ai';
+
+export interface AiSettings {
+  provider: 'gemini' | 'openai-compatible';
+  model: string;
+  temperature: number;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama.
+  baseUrl: string;
+  // Supplied at runtime (VS Code SecretStorage or the settings panel), never bundled. Optional for OpenAI-compatible.
+  apiKey: string;
+}
+
+/** An AI simulation prompt; both texts may use `{{code}}`, `{{language}}`, `{{filename}}` and `{{stdin}}`. */
+export interface PromptTemplate {
+  prompt: string;
+  systemInstruction: string;
+}
+
+// Custom templates keyed by language id, or `default` for every terminal language without its own.
+export type PromptTemplates = Record<string, PromptTemplate>;
+
+// Reply of the extension host's `saveFile` / `saveFolder` requests.
+export interface SaveResult {
+  saved: boolean;
+  location?: string;
+}
+
+export interface NamingSettings {
+  folderPattern: string;
+  screenshotPattern: string;
+  codePattern: string;
+  startIndex: number;
+  isNumberingEnabled: boolean;
+}
+
+// Student and course details, available to every naming pattern (`[student]`, `[roll]`, `[course]`, `[lab]`).
+export interface StudentInfo {
+  studentName: string;
+  rollNumber: string;
+  course: string;
+  labNumber: string;
+}
+
+// per-program: one folder per program, flat: no folders, split: code/ + outputs/, combined: one shared folder
+export type ArchiveLayout = 'per-program' | 'flat' | 'split' | 'combined';
+
+export interface PackagingOptions extends NamingSettings {
+  layout: ArchiveLayout;
+  // Top-level folder wrapping the whole archive; empty for none.
+  rootPattern: string;
+  student: StudentInfo;
+  gradingOptions: GradingOptions;
+}
+
+export type CodeTheme = 'github-light' | 'one-dark' | 'monokai' | 'solarized-light' | 'dracula';
+
+export interface CodeSnapshotOptions {
+  enabled: boolean;
+  theme: CodeTheme;
+  // Longer files are split across several images.
+  linesPerImage: number;
+}
+
+export type TerminalPreset = 'windows-cmd' | 'powershell' | 'macos' | 'ubuntu' | 'vscode' | 'light' | 'dark';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/** How the terminal and browser views look, and how they are turned into images. */
+export interface SnapshotStyle {
+  preset: TerminalPreset;
+  // Prompt shown before the command; empty uses the preset's. Supports [user], [host] and [file].
+  prompt: string;
+  username: string;
+  hostname: string;
+  fontSize: number;
+  // Device pixel ratio used for the capture.
+  imageScale: number;
+  imageFormat: ImageFormat;
+  // Size HTML programs are laid out at, in CSS pixels.
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+export interface BatchSettings {
+  // Programs processed at the same time.
+  concurrency: number;
+  // AI requests started per minute across all jobs; 0 for no limit.
+  requestsPerMinute: number;
+}
+
+// Everything besides the files that a restored session brings back. API keys are deliberately excluded.
+export interface SessionSettings extends PackagingOptions {
+  executionMode: ExecutionMode;
+  aiSettings: Omit<AiSettings, 'apiKey'>;
+  codeSnapshots: CodeSnapshotOptions;
+  snapshotStyle: SnapshotStyle;
+  batch: BatchSettings;
+  // Re-run AI-simulated programs for real, where possible, and compare the outputs.
+  verifySimulations: boolean;
+}
+
+export type PersistedInputSet = Omit<InputSet, 'imageBlob'>;
+
+export type PersistedFile = Omit<ProgramFile, 'imageBlob' | 'inputs' | 'codeImages'> & {
+  inputs?: PersistedInputSet[];
+  codeImageCount?: number;
+};
+
+/** Blob-free copy of a session; screenshots are stored separately under their run slot key. */
+export interface SessionSnapshot {
+  sessionId: string;
+  savedAt: string;
+  files: PersistedFile[];
+  settings: SessionSettings;
+  imageKeys: string[];
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+
+/** What the webview reports about its job queue; a subset of `QueueProgress` in services/jobQueue.ts. */
+export interface BatchProgress {
+  state: 'idle' | 'running' | 'paused' | 'cancelling';
+  total: number;
+  done: number;
+  etaMs: number | null;
+}
+
+const formatEta = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+export function createBatchStatusItem(): vscode.StatusBarItem {
+  const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+  item.name = 'AutoLab Batch';
+  item.command = 'autolab-vscode.openApp';
+  return item;
+}
+
+/** Shows the batch's progress while one is running or paused; hides the item otherwise. */
+export function showBatchProgress(item: vscode.StatusBarItem, progress: BatchProgress) {
+  if (progress.state === 'idle') {
+    item.hide();
+    return;
+  }
+  const count = `${progress.done}/${progress.total}`;
+  item.text = progress.state === 'paused'
+    ? `$(debug-pause) AutoLab ${count} paused`
+    : `$(sync~spin) AutoLab ${count}${progress.etaMs !== null ? ` · ${formatEta(progress.etaMs)} left` : ''}`;
+  item.tooltip = `AutoLab: ${progress.done} of ${progress.total} programs processed. Click to show the panel.`;
+  item.show();
+}
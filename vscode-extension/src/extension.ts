@@ -1,28 +1,178 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { runProgram, RunRequest } from './runner';
+import { clearApiKey, getApiKey, promptForApiKey } from './secrets';
+import { collectFiles, collectFolder, collectWorkspace, WorkspaceFile } from './workspaceFiles';
+import { saveFile, SaveFileRequest, saveFolder, SaveFolderRequest } from './saveOutput';
+import { clearSession, loadSession, saveSession, saveSessionImage, SessionImage, SessionSnapshot } from './sessionStore';
+import { loadPromptTemplates, PromptTemplates, savePromptTemplates } from './promptTemplates';
+import { ProgramNode, ProgramsProvider } from './programsView';
+import { BatchProgress, createBatchStatusItem, showBatchProgress } from './batchStatus';
 
-function openAutolabPanel(context: vscode.ExtensionContext) {
+interface WebviewRequest {
+  type: string;
+  requestId: string;
+  payload?: unknown;
+}
+
+// What each request the webview can make carries (see services/vscodeBridge.ts). Profiles and
+// snapshot styles are stored as they come, so they stay opaque here.
+interface RequestPayloads {
+  run: RunRequest;
+  getApiKey: { provider: string };
+  promptApiKey: { provider?: string };
+  clearApiKey: { provider?: string };
+  loadWorkspace: void;
+  saveFile: SaveFileRequest;
+  saveFolder: SaveFolderRequest;
+  loadSession: void;
+  saveSession: SessionSnapshot;
+  saveSessionImage: SessionImage;
+  clearSession: void;
+  loadProfile: void;
+  saveProfile: unknown;
+  loadSnapshotStyle: void;
+  saveSnapshotStyle: unknown;
+  loadPromptTemplates: void;
+  savePromptTemplates: PromptTemplates;
+  batchProgress: BatchProgress;
+}
+
+type RequestType = keyof RequestPayloads;
+type RequestHandlers = { [Type in RequestType]: (payload: RequestPayloads[Type]) => Thenable<unknown> };
+
+// Every open AutoLab panel, so host-side events can be broadcast to all of them.
+const panels = new Set<vscode.WebviewPanel>();
+// Messages sent before a panel's app has mounted are held until it reports `ready`.
+const pendingMessages = new Map<vscode.WebviewPanel, unknown[]>();
+// Batch progress of the panels' job queues, created on activation.
+let batchStatus: vscode.StatusBarItem | undefined;
+
+function postToPanel(panel: vscode.WebviewPanel, message: unknown) {
+  const queue = pendingMessages.get(panel);
+  if (queue) {
+    queue.push(message);
+  } else {
+    panel.webview.postMessage(message);
+  }
+}
+
+function broadcast(message: unknown) {
+  panels.forEach(panel => postToPanel(panel, message));
+}
+
+// Requests the webview can make of the extension host. Each one is answered with a
+// `response` message carrying the same requestId.
+function createRequestHandlers(context: vscode.ExtensionContext): RequestHandlers {
+  return {
+    run: payload => {
+      const timeoutMs = vscode.workspace.getConfiguration('autolab').get<number>('execution.timeoutMs', 10000);
+      return runProgram(payload, { timeoutMs });
+    },
+    // Keys live in SecretStorage and only reach the webview at runtime, never in the bundle.
+    getApiKey: ({ provider }) => getApiKey(context, provider).then(key => key ?? null),
+    promptApiKey: ({ provider }) => promptForApiKey(context, provider),
+    clearApiKey: ({ provider }) => clearApiKey(context, provider),
+    loadWorkspace: () => collectWorkspace(),
+    saveFile,
+    saveFolder,
+    // Session persistence; the webview sends the save/clear ones as notifications.
+    loadSession: () => loadSession(context),
+    saveSession: snapshot => saveSession(context, snapshot),
+    saveSessionImage: image => saveSessionImage(context, image),
+    clearSession: () => clearSession(context),
+    // Student/course details used by naming patterns; shared by every workspace.
+    loadProfile: () => Promise.resolve(context.globalState.get('autolab.profile') ?? null),
+    saveProfile: profile => context.globalState.update('autolab.profile', profile),
+    // Terminal preset, prompt and image settings, also shared by every workspace.
+    loadSnapshotStyle: () => Promise.resolve(context.globalState.get('autolab.snapshotStyle') ?? null),
+    saveSnapshotStyle: style => context.globalState.update('autolab.snapshotStyle', style),
+    // AI prompt templates live in settings or the workspace's .autolab.json, so they can be shared.
+    loadPromptTemplates: () => loadPromptTemplates(),
+    savePromptTemplates: templates => savePromptTemplates(templates),
+    // Sent as a notification whenever the panel's job queue changes.
+    batchProgress: progress => {
+      if (batchStatus) showBatchProgress(batchStatus, progress);
+      return Promise.resolve();
+    }
+  };
+}
+
+async function handleWebviewMessage(
+  panel: vscode.WebviewPanel,
+  handlers: RequestHandlers,
+  message: WebviewRequest
+) {
+  const webview = panel.webview;
+  if (message?.type === 'ready') {
+    const queue = pendingMessages.get(panel) ?? [];
+    pendingMessages.delete(panel);
+    queue.forEach(queued => webview.postMessage(queued));
+    return;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(handlers, message?.type)) return;
+  // The webview sends each request type with its own payload, so the pairing holds at runtime.
+  const handler = handlers[message.type as RequestType] as (payload: unknown) => Thenable<unknown>;
+
+  // Messages without a requestId are notifications: run them, but nobody is waiting for a reply.
+  if (!message.requestId) {
+    Promise.resolve(handler(message.payload)).catch(err => console.error(`AutoLab: '${message.type}' failed`, err));
+    return;
+  }
+
+  try {
+    const result = await handler(message.payload);
+    webview.postMessage({ type: 'response', requestId: message.requestId, ok: true, result });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    webview.postMessage({ type: 'response', requestId: message.requestId, ok: false, error });
+  }
+}
+
+const webviewOptions = (context: vscode.ExtensionContext): vscode.WebviewOptions => ({
+  enableScripts: true,
+  localResourceRoots: [
+    vscode.Uri.file(path.join(context.extensionPath, 'media'))
+  ]
+});
+
+function openAutolabPanel(context: vscode.ExtensionContext): vscode.WebviewPanel | undefined {
   const panel = vscode.window.createWebviewPanel(
     'autolabApp',
     'Autolab App',
     vscode.ViewColumn.One,
-    {
-      enableScripts: true,
-      localResourceRoots: [
-        vscode.Uri.file(path.join(context.extensionPath, 'media'))
-      ]
-    }
+    webviewOptions(context)
   );
+  return initializePanel(context, panel);
+}
 
+/**
+ * Loads the app into a panel and wires up messaging. Used both for new panels and for panels
+ * VS Code revives after a reload (see the serializer in `activate`).
+ */
+function initializePanel(context: vscode.ExtensionContext, panel: vscode.WebviewPanel): vscode.WebviewPanel | undefined {
   const mediaPath = path.join(context.extensionPath, 'media');
   const indexPath = path.join(mediaPath, 'index.html');
 
   if (!fs.existsSync(indexPath)) {
     panel.webview.html = `<html><body><h2>Autolab App</h2><p>Build output not found. Please run <code>npm run vscode:prepare</code> in the workspace root.</p></body></html>`;
-    return;
+    return undefined;
   }
 
+  const handlers = createRequestHandlers(context);
+  const messageListener = panel.webview.onDidReceiveMessage(message => handleWebviewMessage(panel, handlers, message));
+  panels.add(panel);
+  pendingMessages.set(panel, []);
+  panel.onDidDispose(() => {
+    messageListener.dispose();
+    panels.delete(panel);
+    pendingMessages.delete(panel);
+    // A closed panel's batch stops with it.
+    if (panels.size === 0) batchStatus?.hide();
+  });
+
   let html = fs.readFileSync(indexPath, 'utf8');
 
   const toWebviewUri = (relativePath: string) => {
@@ -57,14 +207,114 @@ function openAutolabPanel(context: vscode.ExtensionContext) {
   }
 
   panel.webview.html = html;
+  return panel;
+}
+
+/** Reveals the existing AutoLab panel, or opens one. */
+function showAutolabPanel(context: vscode.ExtensionContext): vscode.WebviewPanel | undefined {
+  const [existing] = panels;
+  if (existing) {
+    existing.reveal();
+    return existing;
+  }
+  return openAutolabPanel(context);
+}
+
+/** Asks the panel to run the given programs of its session, or every program not yet done. */
+function runInPanel(context: vscode.ExtensionContext, ids?: string[]) {
+  const panel = showAutolabPanel(context);
+  if (panel) {
+    postToPanel(panel, { type: 'runPrograms', ids });
+  }
+}
+
+async function sendFilesToPanel(context: vscode.ExtensionContext, load: () => Promise<WorkspaceFile[]>) {
+  const files = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'AutoLab: Reading files…' },
+    load
+  );
+  if (files.length === 0) {
+    vscode.window.showWarningMessage('AutoLab: No matching text files found. Check the autolab.files.* settings.');
+    return;
+  }
+
+  const panel = showAutolabPanel(context);
+  if (panel) {
+    postToPanel(panel, { type: 'addFiles', files });
+  }
+}
+
+// Explorer context-menu commands receive the clicked item and, for multi-select, every selected item.
+const selectedUris = (uri?: vscode.Uri, uris?: vscode.Uri[]) => uris && uris.length > 0 ? uris : uri ? [uri] : [];
+
+async function processFolder(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  let folders = selectedUris(uri, uris);
+  if (folders.length === 0) {
+    folders = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, canSelectMany: true }) ?? [];
+  }
+  if (folders.length === 0) return;
+
+  await sendFilesToPanel(context, async () => (await Promise.all(folders.map(collectFolder))).flat());
+}
+
+async function addFile(context: vscode.ExtensionContext, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  let targets = selectedUris(uri, uris);
+  if (targets.length === 0 && vscode.window.activeTextEditor) {
+    targets = [vscode.window.activeTextEditor.document.uri];
+  }
+  if (targets.length === 0) {
+    targets = await vscode.window.showOpenDialog({ canSelectFiles: true, canSelectMany: true }) ?? [];
+  }
+  if (targets.length === 0) return;
+
+  await sendFilesToPanel(context, () => collectFiles(targets));
 }
 
 export function activate(context: vscode.ExtensionContext) {
   // Command to manually open/reopen the app.
   context.subscriptions.push(
-    vscode.commands.registerCommand('autolab-vscode.openApp', () => openAutolabPanel(context))
+    vscode.commands.registerCommand('autolab-vscode.openApp', () => showAutolabPanel(context))
+  );
+
+  // Bring AutoLab panels back after a window reload. The app restores its session from
+  // webview state and the stored snapshot on its own.
+  context.subscriptions.push(
+    vscode.window.registerWebviewPanelSerializer('autolabApp', {
+      async deserializeWebviewPanel(panel: vscode.WebviewPanel) {
+        panel.webview.options = webviewOptions(context);
+        initializePanel(context, panel);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('autolab-vscode.processFolder', (uri?: vscode.Uri, uris?: vscode.Uri[]) => processFolder(context, uri, uris)),
+    vscode.commands.registerCommand('autolab-vscode.addFile', (uri?: vscode.Uri, uris?: vscode.Uri[]) => addFile(context, uri, uris)),
+    vscode.commands.registerCommand('autolab-vscode.processWorkspace', () => sendFilesToPanel(context, collectWorkspace))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('autolab-vscode.setApiKey', () => promptForApiKey(context)),
+    vscode.commands.registerCommand('autolab-vscode.clearApiKey', () => clearApiKey(context)),
+    // Let open panels refetch their key when it is set or cleared from the command palette.
+    context.secrets.onDidChange(() => broadcast({ type: 'apiKeysChanged' }))
   );
 
+  // Programs view in the AutoLab Activity Bar container, and the batch progress in the status bar.
+  const programs = new ProgramsProvider(context);
+  batchStatus = createBatchStatusItem();
+  context.subscriptions.push(
+    programs,
+    batchStatus,
+    vscode.window.registerTreeDataProvider('autolab.programs', programs),
+    vscode.commands.registerCommand('autolab-vscode.runAll', () => runInPanel(context)),
+    vscode.commands.registerCommand('autolab-vscode.runProgram', (node: ProgramNode) => runInPanel(context, [node.program.id])),
+    vscode.commands.registerCommand('autolab-vscode.openOutput', (node: ProgramNode) => programs.openOutput(node)),
+    vscode.commands.registerCommand('autolab-vscode.revealScreenshot', (node: ProgramNode) => programs.revealScreenshot(node))
+  );
+
+  if (!vscode.workspace.getConfiguration('autolab').get<boolean>('openOnStartup', false)) return;
+
   // Auto-open the app once VS Code finishes startup (useful for Extension Development Host).
   // Using setTimeout ensures the window UI is ready before creating the panel.
   setTimeout(() => {
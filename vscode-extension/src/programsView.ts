@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { currentSession, findImageFile, onDidChangeSession } from './sessionStore';
+
+// The parts of the webview's `ProgramFile` (as saved in the session) the view shows.
+interface SessionRun {
+  id: string;
+  name: string;
+  output?: string;
+}
+
+interface SessionProgram {
+  id: string;
+  name: string;
+  path?: string;
+  status: string;
+  output?: string;
+  inputs?: SessionRun[];
+}
+
+/** A program, or one of its input sets when it has several runs. */
+export interface ProgramNode {
+  program: SessionProgram;
+  run?: SessionRun;
+}
+
+// Same values as `FileStatus` in the webview's types.ts.
+const STATUS: Record<string, { label: string; icon: string; color?: string }> = {
+  pending: { label: 'Pending', icon: 'circle-outline' },
+  running: { label: 'Running', icon: 'sync~spin' },
+  completed: { label: 'Ready', icon: 'pass', color: 'testing.iconPassed' },
+  mismatch: { label: 'Output mismatch', icon: 'warning', color: 'list.warningForeground' },
+  error: { label: 'Capture error', icon: 'error', color: 'list.errorForeground' }
+};
+
+// Run slot key of a node, as used for its screenshot; see `getRunSlots` in the webview.
+const slotKey = ({ program, run }: ProgramNode) => run ? `${program.id}:${run.id}` : program.id;
+
+const hasRuns = (program: SessionProgram) => (program.inputs?.length ?? 0) > 0;
+
+/**
+ * The programs of the workspace's AutoLab session, read from the stored snapshot, so the view
+ * follows the open panel and still shows the last session after it was closed.
+ */
+export class ProgramsProvider implements vscode.TreeDataProvider<ProgramNode>, vscode.Disposable {
+  private readonly changed = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changed.event;
+  private readonly subscription = onDidChangeSession(() => this.changed.fire());
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  private programs(): SessionProgram[] {
+    return (currentSession(this.context)?.files as SessionProgram[] | undefined) ?? [];
+  }
+
+  getChildren(node?: ProgramNode): ProgramNode[] {
+    if (!node) return this.programs().map(program => ({ program }));
+    if (node.run || !hasRuns(node.program)) return [];
+    return node.program.inputs!.map(run => ({ program: node.program, run }));
+  }
+
+  getTreeItem(node: ProgramNode): vscode.TreeItem {
+    const { program, run } = node;
+    const collapsible = !run && hasRuns(program);
+    const item = new vscode.TreeItem(
+      run ? run.name : program.name,
+      collapsible ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+    );
+
+    if (!run) {
+      const status = STATUS[program.status] ?? STATUS.pending;
+      item.description = status.label;
+      item.tooltip = `${program.path ?? program.name} (${status.label})`;
+      item.iconPath = new vscode.ThemeIcon(status.icon, status.color ? new vscode.ThemeColor(status.color) : undefined);
+    }
+
+    // Flags for the inline actions' `when` clauses, e.g. `program:output:screenshot`.
+    const output = (run ?? program).output !== undefined && !collapsible;
+    const screenshot = !collapsible && (currentSession(this.context)?.imageKeys ?? []).includes(slotKey(node));
+    item.contextValue = [run ? 'run' : 'program', output && 'output', screenshot && 'screenshot'].filter(Boolean).join(':');
+    return item;
+  }
+
+  /** Opens the output of a run (or of a program without input sets) in an untitled editor. */
+  async openOutput(node: ProgramNode) {
+    const output = (node.run ?? node.program).output;
+    if (output === undefined) return;
+    const document = await vscode.workspace.openTextDocument({ content: output, language: 'plaintext' });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  /** Opens the stored screenshot of a run in VS Code's image preview. */
+  async revealScreenshot(node: ProgramNode) {
+    const session = currentSession(this.context);
+    const file = session && await findImageFile(this.context, session.sessionId, slotKey(node));
+    if (!file) return;
+    await vscode.commands.executeCommand('vscode.open', file, { preview: true });
+  }
+
+  dispose() {
+    this.subscription.dispose();
+    this.changed.dispose();
+  }
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+
+/** Same shape as `PromptTemplate` in the webview's types.ts. */
+export interface PromptTemplate {
+  prompt: string;
+  systemInstruction: string;
+}
+
+export type PromptTemplates = Record<string, PromptTemplate>;
+
+const CONFIG_FILE = '.autolab.json';
+
+const configFileUri = () => {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  return folder && vscode.Uri.joinPath(folder.uri, CONFIG_FILE);
+};
+
+/** Contents of the workspace's `.autolab.json`; undefined when there is none. */
+async function readConfigFile(): Promise<Record<string, unknown> | undefined> {
+  const uri = configFileUri();
+  if (!uri) return undefined;
+  let bytes: Uint8Array;
+  try {
+    bytes = await vscode.workspace.fs.readFile(uri);
+  } catch {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(bytes).toString('utf8'));
+  } catch {
+    throw new Error(`${CONFIG_FILE} is not valid JSON.`);
+  }
+}
+
+/** Templates from the `autolab.prompts.templates` setting, with those in `.autolab.json` taking precedence. */
+export async function loadPromptTemplates(): Promise<PromptTemplates> {
+  const fromSettings = vscode.workspace.getConfiguration('autolab').get<PromptTemplates>('prompts.templates', {});
+  const file = await readConfigFile();
+  return { ...fromSettings, ...(file?.prompts as PromptTemplates | undefined) };
+}
+
+/** Writes to `.autolab.json` when the workspace has one, otherwise to the setting. */
+export async function savePromptTemplates(templates: PromptTemplates): Promise<void> {
+  const uri = configFileUri();
+  const file = await readConfigFile();
+  if (uri && file) {
+    const text = `${JSON.stringify({ ...file, prompts: templates }, null, 2)}\n`;
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+    return;
+  }
+  const target = uri ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+  await vscode.workspace.getConfiguration('autolab').update('prompts.templates', templates, target);
+}
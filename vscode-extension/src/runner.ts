@@ -0,0 +1,296 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface SourceFile {
+  // Relative to the entry file's folder.
+  path: string;
+  content: string;
+}
+
+export interface RunRequest {
+  fileName: string;
+  content: string;
+  language: string;
+  stdin?: string;
+  // Feed stdin a line at a time and record a transcript, for snapshots that echo the input.
+  // Otherwise stdin is written in one go, as for a shell redirect.
+  interactive?: boolean;
+  // Other files of a multi-file program: headers, helper classes, extra translation units.
+  files?: SourceFile[];
+}
+
+export interface TranscriptChunk {
+  kind: 'output' | 'input';
+  text: string;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  // Output and stdin lines in the order they happened; only for interactive runs that were given input.
+  transcript?: TranscriptChunk[];
+}
+
+export interface RunOptions {
+  timeoutMs: number;
+}
+
+type Command = [string, string[]];
+
+interface Toolchain {
+  // Only the files in `sources` whose extension is listed here are passed to the compiler (entry first).
+  compiles?: string[];
+  compile?: (sources: string[], workDir: string) => Command;
+  run: (sourcePath: string, workDir: string, content: string) => Command;
+}
+
+// Cap captured output so a runaway loop can't flood the webview.
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+// Piped programs don't echo what they read, so interactive runs feed stdin a line at a time and
+// record it in the transcript, once the program has printed something (a prompt) and gone quiet.
+// A program that stays silent that long reads without prompting, and gets the rest in one go.
+const INPUT_IDLE_MS = 150;
+const INPUT_FALLBACK_MS = 750;
+
+// Force-included into C/C++ builds so prompts without a newline are flushed before the program blocks on input.
+const UNBUFFERED_HEADER = 'autolab_unbuffered.h';
+const UNBUFFERED_SOURCE = `#include <stdio.h>
+__attribute__((constructor)) static void autolab_unbuffered_stdout(void) { setvbuf(stdout, NULL, _IONBF, 0); }
+`;
+
+const isWindows = process.platform === 'win32';
+const binaryPath = (workDir: string) => path.join(workDir, isWindows ? 'program.exe' : 'program');
+// `java -cp dir com.example.Main` for a class declared in `package com.example;`.
+const classNameOf = (sourcePath: string, content: string) => {
+  const className = path.basename(sourcePath, path.extname(sourcePath));
+  const packageName = /^\s*package\s+([\w.]+)\s*;/m.exec(content)?.[1];
+  return packageName ? `${packageName}.${className}` : className;
+};
+
+// Keyed by language id (`LANGUAGES` in constants.tsx, whose `runCommand` marks the ones listed here).
+const TOOLCHAINS: Record<string, Toolchain> = {
+  py: { run: src => [isWindows ? 'python' : 'python3', [src]] },
+  js: { run: src => ['node', [src]] },
+  // Needs Node 22.6 or later.
+  ts: { run: src => ['node', ['--experimental-strip-types', '--no-warnings', src]] },
+  rb: { run: src => ['ruby', [src]] },
+  php: { run: src => ['php', [src]] },
+  sh: { run: src => ['bash', [src]] },
+  r: { run: src => ['Rscript', [src]] },
+  sql: { run: src => ['sqlite3', [':memory:', `.read ${src}`]] },
+  // File-based apps need .NET 10 or later.
+  cs: { run: src => ['dotnet', ['run', src]] },
+  c: {
+    compiles: ['.c'],
+    compile: (sources, dir) => ['gcc', ['-include', UNBUFFERED_HEADER, ...sources, '-o', binaryPath(dir), '-lm']],
+    run: (_src, dir) => [binaryPath(dir), []]
+  },
+  cpp: {
+    compiles: ['.cpp', '.cc'],
+    compile: (sources, dir) => ['g++', ['-include', UNBUFFERED_HEADER, ...sources, '-o', binaryPath(dir)]],
+    run: (_src, dir) => [binaryPath(dir), []]
+  },
+  java: {
+    compiles: ['.java'],
+    compile: (sources, dir) => ['javac', ['-d', dir, ...sources]],
+    run: (src, dir, content) => ['java', ['-cp', dir, classNameOf(src, content)]]
+  },
+  kt: {
+    compiles: ['.kt'],
+    compile: (sources, dir) => ['kotlinc', [...sources, '-include-runtime', '-d', path.join(dir, 'program.jar')]],
+    run: (_src, dir) => ['java', ['-jar', path.join(dir, 'program.jar')]]
+  },
+  go: {
+    compiles: ['.go'],
+    compile: (sources, dir) => ['go', ['build', '-o', binaryPath(dir), ...sources]],
+    run: (_src, dir) => [binaryPath(dir), []]
+  },
+  rs: {
+    // rustc finds the other modules from the crate root itself.
+    compiles: ['.rs'],
+    compile: ([root], dir) => ['rustc', ['-o', binaryPath(dir), root]],
+    run: (_src, dir) => [binaryPath(dir), []]
+  }
+};
+
+// Runs start in their own process group (see `execute`), so wrappers like `bash` or `dotnet run`
+// are killed together with the programs they started.
+function killProcessTree(child: cp.ChildProcess) {
+  if (child.pid === undefined) return;
+  if (isWindows) {
+    cp.spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true }).on('error', () => undefined);
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // The group is already gone.
+  }
+}
+
+function execute([command, args]: Command, cwd: string, stdin: string | undefined, interactive: boolean, timeoutMs: number): Promise<RunResult> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+
+    const feedsLines = interactive && !!stdin;
+    const pendingLines = feedsLines ? stdin.match(/[^\n]*\n|[^\n]+$/g) ?? [] : [];
+    const transcript: TranscriptChunk[] = [];
+    const record = (kind: TranscriptChunk['kind'], text: string) => {
+      const last = transcript[transcript.length - 1];
+      if (last && last.kind === kind) last.text += text;
+      else transcript.push({ kind, text });
+    };
+    let feedTimer: NodeJS.Timeout | undefined;
+    let printedSinceFeed = false;
+
+    const finish = (exitCode: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(feedTimer);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - started,
+        ...(feedsLines ? { transcript } : {})
+      });
+    };
+
+    const child = cp.spawn(command, args, {
+      cwd,
+      windowsHide: true,
+      detached: !isWindows,
+      env: { ...process.env, PYTHONUNBUFFERED: '1' }
+    });
+
+    const feed = (text: string) => {
+      record('input', text.endsWith('\n') ? text : `${text}\n`);
+      child.stdin.write(text);
+    };
+
+    // Restarted by every bit of output, so the next line goes in once the program waits for it.
+    const scheduleFeed = () => {
+      clearTimeout(feedTimer);
+      if (settled) return;
+      if (pendingLines.length === 0) {
+        child.stdin.end();
+        return;
+      }
+      feedTimer = setTimeout(() => {
+        if (printedSinceFeed) {
+          feed(pendingLines.shift()!);
+          printedSinceFeed = false;
+          scheduleFeed();
+        } else {
+          feed(pendingLines.splice(0).join(''));
+          child.stdin.end();
+        }
+      }, printedSinceFeed ? INPUT_IDLE_MS : INPUT_FALLBACK_MS);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, timeoutMs);
+
+    // Output past the cap is dropped, but still counts as the program being active.
+    const onOutput = (captured: boolean, text: string) => {
+      if (!feedsLines) return;
+      if (captured) record('output', text);
+      printedSinceFeed = true;
+      if (pendingLines.length > 0) scheduleFeed();
+    };
+    child.stdout.on('data', (chunk: Buffer) => {
+      const captured = stdout.length < MAX_OUTPUT_BYTES;
+      if (captured) stdout += chunk.toString();
+      onOutput(captured, chunk.toString());
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      const captured = stderr.length < MAX_OUTPUT_BYTES;
+      if (captured) stderr += chunk.toString();
+      onOutput(captured, chunk.toString());
+    });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      stderr += err.code === 'ENOENT'
+        ? `'${command}' was not found. Install it or add it to your PATH.\n`
+        : `${err.message}\n`;
+      finish(null);
+    });
+    // Anything the program left running in the background would hold the pipes open.
+    child.on('exit', () => killProcessTree(child));
+    child.on('close', code => finish(code));
+
+    // Programs that never read stdin close it early; ignore the resulting EPIPE.
+    child.stdin.on('error', () => undefined);
+    if (feedsLines) scheduleFeed();
+    else child.stdin.end(stdin ?? '');
+  });
+}
+
+/**
+ * Writes the other files of a multi-file program next to the entry file, keeping their folders.
+ * Paths come from the webview, so anything that would land outside the work dir is skipped.
+ */
+async function writeSupportFiles(workDir: string, files: SourceFile[]): Promise<string[]> {
+  const written: string[] = [];
+  for (const file of files) {
+    const relative = path.normalize(file.path);
+    if (path.isAbsolute(relative) || relative.split(path.sep).includes('..')) continue;
+    const target = path.join(workDir, relative);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, file.content, 'utf8');
+    written.push(relative);
+  }
+  return written;
+}
+
+/**
+ * Compiles (when needed) and runs a source file, plus the rest of its program, with the locally
+ * installed toolchain. Everything happens in a throwaway temp directory that is removed afterwards.
+ */
+export async function runProgram(request: RunRequest, options: RunOptions): Promise<RunResult> {
+  const toolchain = TOOLCHAINS[request.language];
+  if (!toolchain) {
+    return {
+      stdout: '',
+      stderr: `Local execution is not supported for .${request.language} files.\n`,
+      exitCode: null,
+      timedOut: false,
+      durationMs: 0
+    };
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'autolab-'));
+  try {
+    // Commands get relative paths (cwd is the work dir) so diagnostics don't mention temp paths.
+    const sourcePath = path.basename(request.fileName);
+    await fs.promises.writeFile(path.join(workDir, sourcePath), request.content, 'utf8');
+    await fs.promises.writeFile(path.join(workDir, UNBUFFERED_HEADER), UNBUFFERED_SOURCE, 'utf8');
+    const extraPaths = await writeSupportFiles(workDir, request.files ?? []);
+
+    if (toolchain.compile) {
+      const sources = [sourcePath, ...extraPaths].filter(file => toolchain.compiles?.includes(path.extname(file).toLowerCase()));
+      const compiled = await execute(toolchain.compile(sources, workDir), workDir, undefined, false, options.timeoutMs);
+      if (compiled.exitCode !== 0) {
+        return compiled;
+      }
+    }
+
+    return await execute(toolchain.run(sourcePath, workDir, request.content), workDir, request.stdin, !!request.interactive, options.timeoutMs);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
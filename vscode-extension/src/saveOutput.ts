@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export interface SaveFileRequest {
+  fileName: string;
+  data: Uint8Array;
+}
+
+export interface SaveFolderRequest {
+  folderName: string;
+  entries: { path: string; data: Uint8Array }[];
+}
+
+export interface SaveResult {
+  saved: boolean;
+  location?: string;
+}
+
+/** `autolab.output.folder` resolved against the first workspace folder, if both are set. */
+function configuredOutputFolder(): vscode.Uri | undefined {
+  const folder = vscode.workspace.getConfiguration('autolab.output').get<string>('folder', '').trim();
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) return undefined;
+  if (path.isAbsolute(folder)) return vscode.Uri.file(folder);
+  return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, folder) : undefined;
+}
+
+// Save dialog filter per exported format, keyed by file extension.
+const FILE_FILTERS: Record<string, Record<string, string[]>> = {
+  zip: { 'ZIP archive': ['zip'] },
+  pdf: { 'PDF document': ['pdf'] },
+  docx: { 'Word document': ['docx'] }
+};
+
+function defaultLocation(name: string): vscode.Uri | undefined {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, name) : undefined;
+}
+
+// Entry paths come from the webview; never let one climb out of the target folder.
+function safeJoin(root: vscode.Uri, relativePath: string): vscode.Uri {
+  const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/')).replace(/^\/+/, '');
+  if (normalized.startsWith('..')) {
+    throw new Error(`Refusing to write outside the output folder: ${relativePath}`);
+  }
+  return vscode.Uri.joinPath(root, normalized);
+}
+
+function announce(location: vscode.Uri) {
+  vscode.window.showInformationMessage(`AutoLab: Saved to ${location.fsPath}`, 'Reveal').then(choice => {
+    if (choice === 'Reveal') {
+      vscode.commands.executeCommand('revealFileInOS', location);
+    }
+  });
+}
+
+/** Saves a single exported file (ZIP archive, PDF lab record, Word report). */
+export async function saveFile(request: SaveFileRequest): Promise<SaveResult> {
+  const outputFolder = configuredOutputFolder();
+  const target = outputFolder
+    ? vscode.Uri.joinPath(outputFolder, request.fileName)
+    : await vscode.window.showSaveDialog({
+        defaultUri: defaultLocation(request.fileName),
+        filters: FILE_FILTERS[path.extname(request.fileName).slice(1).toLowerCase()],
+        saveLabel: 'Save Submission'
+      });
+  if (!target) return { saved: false };
+
+  await vscode.workspace.fs.writeFile(target, request.data);
+  announce(target);
+  return { saved: true, location: target.fsPath };
+}
+
+/** Writes the unpacked submission (sources, screenshots, reports) as a folder tree. */
+export async function saveFolder(request: SaveFolderRequest): Promise<SaveResult> {
+  let parent = configuredOutputFolder();
+  if (!parent) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFolders: true,
+      canSelectFiles: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      openLabel: 'Save Submission Here'
+    });
+    parent = picked?.[0];
+  }
+  if (!parent) return { saved: false };
+
+  const root = vscode.Uri.joinPath(parent, request.folderName);
+  for (const entry of request.entries) {
+    await vscode.workspace.fs.writeFile(safeJoin(root, entry.path), entry.data);
+  }
+  announce(root);
+  return { saved: true, location: root.fsPath };
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+
+// Provider ids match AiSettings['provider'] in the web app.
+const PROVIDERS = [
+  { id: 'gemini', label: 'Gemini', description: 'Google AI Studio API key' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible endpoint', description: 'Bearer token for a local or proxy endpoint' }
+];
+
+const secretKey = (provider: string) => `autolab.apiKey.${provider}`;
+
+export function getApiKey(context: vscode.ExtensionContext, provider: string): Thenable<string | undefined> {
+  return context.secrets.get(secretKey(provider));
+}
+
+async function pickProvider(placeHolder: string): Promise<string | undefined> {
+  const picked = await vscode.window.showQuickPick(PROVIDERS, { placeHolder });
+  return picked?.id;
+}
+
+/** Asks for a provider and key, then stores the key in VS Code SecretStorage. */
+export async function promptForApiKey(context: vscode.ExtensionContext, provider?: string): Promise<boolean> {
+  const target = provider ?? await pickProvider('Which AI provider is this key for?');
+  if (!target) return false;
+
+  const key = await vscode.window.showInputBox({
+    title: 'AutoLab: Set API Key',
+    prompt: `API key for ${PROVIDERS.find(p => p.id === target)?.label ?? target}`,
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: value => value.trim() ? undefined : 'The key cannot be empty.'
+  });
+  if (!key) return false;
+
+  await context.secrets.store(secretKey(target), key.trim());
+  vscode.window.showInformationMessage('AutoLab: API key saved to VS Code secret storage.');
+  return true;
+}
+
+export async function clearApiKey(context: vscode.ExtensionContext, provider?: string): Promise<boolean> {
+  const target = provider ?? await pickProvider('Which AI provider key should be removed?');
+  if (!target) return false;
+
+  await context.secrets.delete(secretKey(target));
+  vscode.window.showInformationMessage('AutoLab: API key removed.');
+  return true;
+}
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+
+// The snapshot is opaque here; only the fields the store needs are typed.
+export interface SessionSnapshot {
+  sessionId: string;
+  imageKeys: string[];
+  [key: string]: unknown;
+}
+
+export interface SessionImage {
+  sessionId: string;
+  key: string;
+  data: Uint8Array;
+  // The capture's format, e.g. `image/jpeg`; PNG when missing.
+  mimeType?: string;
+}
+
+const SESSION_KEY = 'autolab.session';
+
+// Fired after the stored session was saved or cleared, e.g. to refresh the Programs view.
+const sessionChanged = new vscode.EventEmitter<void>();
+export const onDidChangeSession = sessionChanged.event;
+
+// Saves arrive as fire-and-forget messages; run them one at a time so a prune never races a write.
+let pending: Promise<unknown> = Promise.resolve();
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = pending.then(task, task);
+  pending = run.catch(() => undefined);
+  return run;
+}
+
+// Screenshots are too big for workspaceState, so they live as files next to the extension's global storage.
+const sessionFolder = (context: vscode.ExtensionContext, sessionId: string) =>
+  vscode.Uri.joinPath(context.globalStorageUri, 'sessions', encodeURIComponent(sessionId));
+
+// Same extensions as `IMAGE_FORMATS` in the webview's services/imageFormat.ts.
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+// Run slot keys contain ':' which is not a valid file name character on Windows. The extension
+// follows the capture's format, so a file name without it is the key.
+const imageName = (key: string) => encodeURIComponent(key);
+const imageNameOf = (fileName: string) => fileName.replace(/\.[^.]*$/, '');
+
+async function storedImageNames(folder: vscode.Uri): Promise<string[]> {
+  try {
+    return (await vscode.workspace.fs.readDirectory(folder)).map(([name]) => name);
+  } catch {
+    // No screenshots stored yet.
+    return [];
+  }
+}
+
+/** The stored screenshot of a run slot, in whichever format it was captured; undefined when there is none. */
+export const findImageFile = async (context: vscode.ExtensionContext, sessionId: string, key: string) => {
+  const folder = sessionFolder(context, sessionId);
+  const name = (await storedImageNames(folder)).find(name => imageNameOf(name) === imageName(key));
+  return name ? vscode.Uri.joinPath(folder, name) : undefined;
+};
+
+async function deleteFolder(uri: vscode.Uri) {
+  try {
+    await vscode.workspace.fs.delete(uri, { recursive: true, useTrash: false });
+  } catch {
+    // Already gone.
+  }
+}
+
+export const saveSession = (context: vscode.ExtensionContext, snapshot: SessionSnapshot) => serialized(async () => {
+  const previous = context.workspaceState.get<SessionSnapshot>(SESSION_KEY);
+  if (previous && previous.sessionId !== snapshot.sessionId) {
+    await deleteFolder(sessionFolder(context, previous.sessionId));
+  }
+  await context.workspaceState.update(SESSION_KEY, snapshot);
+  sessionChanged.fire();
+
+  // Drop screenshots of runs that were removed or invalidated since the last save.
+  const folder = sessionFolder(context, snapshot.sessionId);
+  const keep = new Set(snapshot.imageKeys.map(imageName));
+  for (const name of await storedImageNames(folder)) {
+    if (!keep.has(imageNameOf(name))) {
+      await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder, name));
+    }
+  }
+});
+
+export const saveSessionImage = (context: vscode.ExtensionContext, image: SessionImage) => serialized(async () => {
+  // A recapture in another format would otherwise leave the old file behind.
+  const previous = await findImageFile(context, image.sessionId, image.key);
+  if (previous) await vscode.workspace.fs.delete(previous);
+  const extension = IMAGE_EXTENSIONS[image.mimeType ?? ''] ?? 'png';
+  const file = vscode.Uri.joinPath(sessionFolder(context, image.sessionId), `${imageName(image.key)}.${extension}`);
+  await vscode.workspace.fs.writeFile(file, image.data);
+});
+
+export const loadSession = (context: vscode.ExtensionContext) => serialized(async () => {
+  const snapshot = context.workspaceState.get<SessionSnapshot>(SESSION_KEY);
+  if (!snapshot) return null;
+
+  const folder = sessionFolder(context, snapshot.sessionId);
+  const names = await storedImageNames(folder);
+  const images: Record<string, Uint8Array> = {};
+  for (const key of snapshot.imageKeys) {
+    const name = names.find(name => imageNameOf(name) === imageName(key));
+    // Screenshot was never written (e.g. the window closed mid-capture); the run shows as not captured.
+    if (name) images[key] = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, name));
+  }
+  return { snapshot, images };
+});
+
+export const clearSession = (context: vscode.ExtensionContext) => serialized(async () => {
+  const snapshot = context.workspaceState.get<SessionSnapshot>(SESSION_KEY);
+  if (snapshot) {
+    await deleteFolder(sessionFolder(context, snapshot.sessionId));
+  }
+  await context.workspaceState.update(SESSION_KEY, undefined);
+  sessionChanged.fire();
+});
+
+/** The last saved session, as it is now; undefined when there is none. */
+export const currentSession = (context: vscode.ExtensionContext) =>
+  context.workspaceState.get<SessionSnapshot>(SESSION_KEY);
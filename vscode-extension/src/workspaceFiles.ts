@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/** Same shape the webview builds from browser uploads (`UploadedText` in services/inputSets.ts). */
+export interface WorkspaceFile {
+  name: string;
+  dir: string;
+  content: string;
+}
+
+interface FileRules {
+  include: string[];
+  exclude: string[];
+  useGitignore: boolean;
+  maxFileSizeKb: number;
+}
+
+function readRules(): FileRules {
+  const config = vscode.workspace.getConfiguration('autolab.files');
+  return {
+    include: config.get<string[]>('include', ['**/*']),
+    exclude: config.get<string[]>('exclude', []),
+    useGitignore: config.get<boolean>('useGitignore', true),
+    maxFileSizeKb: config.get<number>('maxFileSizeKb', 512)
+  };
+}
+
+const toGlob = (patterns: string[]) => patterns.length === 1 ? patterns[0] : `{${patterns.join(',')}}`;
+
+/**
+ * Converts the common subset of .gitignore syntax into globs relative to the folder holding it.
+ * Negations (`!pattern`) are not supported and are skipped.
+ */
+export function gitignoreToGlobs(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('!'))
+    .flatMap(line => {
+      const isDir = line.endsWith('/');
+      let pattern = line.replace(/\/+$/, '');
+      // A slash anywhere but the end anchors the pattern to the .gitignore folder.
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\/+/, '');
+      const base = anchored ? pattern : `**/${pattern}`;
+      return isDir ? [`${base}/**`] : [base, `${base}/**`];
+    });
+}
+
+async function readGitignore(folder: vscode.Uri): Promise<string[]> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, '.gitignore'));
+    return gitignoreToGlobs(Buffer.from(bytes).toString('utf8'));
+  } catch {
+    return [];
+  }
+}
+
+// NUL bytes in the first few KB are a reliable sign of a binary file.
+const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8000).includes(0);
+
+async function readTextFile(uri: vscode.Uri, maxFileSizeKb: number): Promise<string | undefined> {
+  const stat = await vscode.workspace.fs.stat(uri);
+  if (stat.size > maxFileSizeKb * 1024) return undefined;
+
+  const bytes = await vscode.workspace.fs.readFile(uri);
+  if (looksBinary(bytes)) return undefined;
+  return Buffer.from(bytes).toString('utf8');
+}
+
+/**
+ * Collects every matching text file under `root`, honouring the `autolab.files.*` settings.
+ * `dir` is the folder path relative to the parent of `root`, mirroring `webkitRelativePath`.
+ */
+export async function collectFolder(root: vscode.Uri): Promise<WorkspaceFile[]> {
+  const rules = readRules();
+  const exclude = [...rules.exclude];
+  if (rules.useGitignore) {
+    exclude.push(...await readGitignore(root));
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(root);
+    if (workspaceFolder && workspaceFolder.uri.toString() !== root.toString()) {
+      // The workspace's own .gitignore still applies: unanchored rules as-is, anchored ones
+      // only when they point inside `root` (re-based onto it).
+      const rootPrefix = `${path.posix.relative(workspaceFolder.uri.path, root.path)}/`;
+      for (const glob of await readGitignore(workspaceFolder.uri)) {
+        if (glob.startsWith('**/')) exclude.push(glob);
+        else if (glob.startsWith(rootPrefix)) exclude.push(glob.slice(rootPrefix.length));
+      }
+    }
+  }
+
+  const uris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(root, toGlob(rules.include)),
+    exclude.length > 0 ? new vscode.RelativePattern(root, toGlob(exclude)) : null
+  );
+  uris.sort((a, b) => a.path.localeCompare(b.path));
+
+  const rootName = path.posix.basename(root.path);
+  const files: WorkspaceFile[] = [];
+  for (const uri of uris) {
+    const content = await readTextFile(uri, rules.maxFileSizeKb);
+    if (content === undefined) continue;
+
+    const relativeDir = path.posix.dirname(path.posix.relative(root.path, uri.path));
+    files.push({
+      name: path.posix.basename(uri.path),
+      dir: relativeDir === '.' ? rootName : `${rootName}/${relativeDir}`,
+      content
+    });
+  }
+  return files;
+}
+
+/** Reads individually selected files; binary or oversized ones are skipped. */
+export async function collectFiles(uris: vscode.Uri[]): Promise<WorkspaceFile[]> {
+  const { maxFileSizeKb } = readRules();
+  const files: WorkspaceFile[] = [];
+  for (const uri of uris) {
+    const content = await readTextFile(uri, maxFileSizeKb);
+    if (content !== undefined) {
+      files.push({ name: path.posix.basename(uri.path), dir: '', content });
+    }
+  }
+  return files;
+}
+
+export async function collectWorkspace(): Promise<WorkspaceFile[]> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const perFolder = await Promise.all(folders.map(folder => collectFolder(folder.uri)));
+  return perFolder.flat();
+}